@@ -11,8 +11,89 @@ export { default as Azure } from "./dist/index.js";
 // Named exports (service classes)
 export { Outlook, Calendar, Teams, SharePoint, AzureAuth } from "./dist/index.js";
 
+// Token stores
+export { FileTokenStore, MemoryTokenStore, TokenDecryptionError } from "./dist/index.js";
+export type { FileTokenStoreOptions } from "./dist/index.js";
+
+// Loggers
+export { ConsoleLogger, SilentLogger } from "./dist/index.js";
+
+// Error classes
+export {
+  GraphError,
+  GraphBadRequestError,
+  GraphAuthError,
+  GraphForbiddenError,
+  GraphNotFoundError,
+  GraphConflictError,
+  GraphThrottledError,
+  GraphServerError,
+} from "./dist/index.js";
+export type { GraphErrorDetails } from "./dist/index.js";
+export { RequestAbortedError, RequestTimeoutError } from "./dist/index.js";
+
 // Builder classes
 export { MailBuilder, AdaptiveCardBuilder } from "./dist/index.js";
 
+// JSON batching
+export { GraphBatch } from "./dist/index.js";
+
+// Low-level Graph client
+export { GraphClient } from "./dist/index.js";
+export type { HttpMethod } from "./dist/index.js";
+
+// Paging
+export { PageIterator } from "./dist/index.js";
+export type { Page, PageFetcher } from "./dist/index.js";
+export { ODataQuery, Filter, filter, formatLiteral, mergeQueries } from "./dist/index.js";
+export type { ODataValue, ODataPath } from "./dist/index.js";
+
 // Export types
-export type { AzureConfig } from "./dist/types.js";
+export type {
+  AzureConfig,
+  AuthHooks,
+  AuthErrorInfo,
+  BatchRequest,
+  BatchResponse,
+  ClientCertificate,
+  DeleteMessagesOptions,
+  DeviceCodeInfo,
+  DeviceCodeOptions,
+  FolderTreeOptions,
+  FollowUpFlag,
+  GetMessageOptions,
+  GraphRequestOptions,
+  GraphResponse,
+  InteractiveLoginOptions,
+  ItemBody,
+  ListFoldersOptions,
+  ListMessagesOptions,
+  ListOptions,
+  Logger,
+  LogLevel,
+  MailFolder,
+  MailFolderNode,
+  MailFolderRef,
+  MailPayload,
+  MailResponseAction,
+  Message,
+  MessageAttachment,
+  MessageReadOptions,
+  ProviderInvokedInfo,
+  QueryInput,
+  QueryParams,
+  RateLimitConfig,
+  RateLimitOptions,
+  ReplyPayload,
+  RequestOptions,
+  RetryOptions,
+  ThrottledInfo,
+  TokenEventInfo,
+  TokenPersistedInfo,
+  TokenRefreshedInfo,
+  TokenRefreshFailedInfo,
+  TokenStore,
+  StoredCredentials,
+  StoredCredentialsInfo,
+  WellKnownFolderName,
+} from "./dist/types.js";
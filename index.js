@@ -14,6 +14,29 @@ export {
   MailBuilder,
   AdaptiveCardBuilder,
   AzureAuth,
+  FileTokenStore,
+  MemoryTokenStore,
+  TokenDecryptionError,
+  ConsoleLogger,
+  SilentLogger,
+  GraphError,
+  GraphBadRequestError,
+  GraphAuthError,
+  GraphForbiddenError,
+  GraphNotFoundError,
+  GraphConflictError,
+  GraphThrottledError,
+  GraphServerError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  GraphBatch,
+  GraphClient,
+  PageIterator,
+  ODataQuery,
+  Filter,
+  filter,
+  formatLiteral,
+  mergeQueries,
 } from './dist/index.js';
 
 // Re-export default as named export for consistency
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { ClientCertificate } from '../types';
+
+const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+/**
+ * Lifetime of a signed client assertion in seconds
+ * Each token request signs a fresh assertion, so this only needs to cover clock skew
+ */
+const ASSERTION_LIFETIME_SECONDS = 600;
+
+/**
+ * Encode a JSON object as a base64url JWT segment
+ */
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Build the JWT header, identifying the certificate by its thumbprint
+ * SHA-1 thumbprints (40 hex chars) use x5t, SHA-256 thumbprints (64 hex chars) use x5t#S256
+ */
+function buildHeader(thumbprint: string): { [key: string]: string } {
+  const hex = thumbprint.replace(/[:\s]/g, '');
+
+  if (!/^([0-9a-fA-F]{40}|[0-9a-fA-F]{64})$/.test(hex)) {
+    throw new Error(
+      'Invalid certificate thumbprint. Expected a SHA-1 (40 hex chars) or SHA-256 (64 hex chars) value.'
+    );
+  }
+
+  const encoded = Buffer.from(hex, 'hex').toString('base64url');
+  const thumbprintKey = hex.length === 40 ? 'x5t' : 'x5t#S256';
+
+  return { alg: 'RS256', typ: 'JWT', [thumbprintKey]: encoded };
+}
+
+/**
+ * Create a signed JWT client assertion for certificate-based client authentication
+ *
+ * @param certificate - PEM private key and certificate thumbprint
+ * @param clientId - Azure app client ID (issuer and subject)
+ * @param tokenUrl - Token endpoint URL (audience)
+ * @returns Signed JWT (RS256)
+ */
+export function createClientAssertion(
+  certificate: ClientCertificate,
+  clientId: string,
+  tokenUrl: string
+): string {
+  const now = Math.floor(Date.now() / 1000);
+
+  const header = buildHeader(certificate.thumbprint);
+  const payload = {
+    aud: tokenUrl,
+    iss: clientId,
+    sub: clientId,
+    jti: crypto.randomUUID(),
+    nbf: now,
+    iat: now,
+    exp: now + ASSERTION_LIFETIME_SECONDS,
+  };
+
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+
+  let signature: string;
+  try {
+    signature = crypto
+      .createSign('RSA-SHA256')
+      .update(signingInput)
+      .sign(certificate.privateKey, 'base64url');
+  } catch (error) {
+    throw new Error(
+      `Failed to sign client assertion with the configured private key: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  return `${signingInput}.${signature}`;
+}
+
+/**
+ * Build client authentication parameters for a token request
+ * Uses a signed client assertion when a certificate is configured, otherwise the client secret
+ */
+export function getClientAuthParams(
+  clientId: string,
+  tokenUrl: string,
+  clientSecret: string,
+  certificate?: ClientCertificate
+): { [key: string]: string } {
+  if (certificate) {
+    return {
+      client_assertion_type: CLIENT_ASSERTION_TYPE,
+      client_assertion: createClientAssertion(certificate, clientId, tokenUrl),
+    };
+  }
+
+  return { client_secret: clientSecret };
+}
@@ -1,10 +1,72 @@
 import Axon, { AxonError } from 'axios-fluent';
-import os from 'os';
 import path from 'path';
-import fs from 'fs/promises';
-import { AzureConfig, StoredCredentials } from '../types';
+import {
+  AuthHooks,
+  AzureConfig,
+  ClientCertificate,
+  DeviceCodeInfo,
+  DeviceCodeOptions,
+  InteractiveLoginOptions,
+  Logger,
+  ProviderInvokedInfo,
+  RateLimitConfig,
+  RequestOptions,
+  RetryOptions,
+  StoredCredentials,
+  StoredCredentialsInfo,
+  TokenEventInfo,
+  TokenGrantType,
+  TokenProviderKind,
+  TokenStore,
+} from '../types';
+import { getClientAuthParams } from './assertion';
+import { createPkcePair, createState, startLoopbackServer } from './loopback';
+import { FileTokenStore, getStorageKey } from './tokenStore';
+import { TokenDecryptionError } from './encryption';
+import { ConsoleLogger, redact, sanitizeError, withRequestLogging } from './logger';
+import { createGraphError, getGraphErrorDetails, GraphAuthError } from './errors';
+import { resolveRetryPolicy, RetryPolicy, withThrottlingRetry } from './retry';
+import { GraphBatch } from './batch';
+import { resetRequestSchedulers, withRequestScheduling } from './scheduler';
+import {
+  abortable,
+  CancellationOptions,
+  RequestAbortedError,
+  throwIfAborted,
+  withAbortSignal,
+  withCancellation,
+} from './cancellation';
+
+const DEFAULT_REDIRECT_URI = 'https://oauth.pstmn.io/v1/callback';
 
-const REDIRECT_URI = 'https://oauth.pstmn.io/v1/callback';
+/**
+ * How long the interactive login waits for the browser redirect (5 minutes)
+ */
+const DEFAULT_INTERACTIVE_LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Default endpoints for the Azure global cloud
+ * Override via graphEndpoint / graphVersion / authorityHost in config
+ * (e.g. national clouds or a local mock server)
+ */
+const DEFAULT_GRAPH_ENDPOINT = 'https://graph.microsoft.com';
+const DEFAULT_GRAPH_VERSION = 'v1.0';
+const DEFAULT_AUTHORITY_HOST = 'https://login.microsoftonline.com';
+
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+/**
+ * Tokens are treated as expired this long before expiresAt (5 minutes)
+ * so requests never go out with a token that dies in flight
+ */
+const DEFAULT_EXPIRY_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Background refresh timing: retry delay after a failed renewal, and the shortest
+ * delay between renewals (guards against tight loops when the skew exceeds the token lifetime)
+ */
+const BACKGROUND_REFRESH_RETRY_MS = 60 * 1000;
+const MIN_BACKGROUND_REFRESH_DELAY_MS = 10 * 1000;
 
 /**
  * Default OAuth scopes that work in 99% of cases without admin consent
@@ -41,6 +103,20 @@ const DEFAULT_SCOPES = [
   // "Sites.ReadWrite.All", // ⚠️ Requires admin consent
 ];
 
+/**
+ * GraphAuthError for a failed token endpoint request, with its HTTP status and OAuth error code
+ * The HTTP error is not kept as the cause: its request body holds the client secret and tokens
+ */
+function createTokenEndpointError(message: string, error: unknown): GraphAuthError {
+  const { status, code, requestId, responseData } = getGraphErrorDetails(error);
+  return new GraphAuthError(code ? `${message}: ${code}` : message, {
+    status,
+    code,
+    requestId,
+    responseData: redact(responseData),
+  });
+}
+
 /**
  * Core authentication module for Azure/Microsoft Graph API
  * Handles token management, refresh, and storage
@@ -54,124 +130,305 @@ export class AzureAuth {
   private tokenRefreshPromise: Promise<void> | null = null;
   private storageLoadPromise: Promise<void> | null = null;
   private tokenProvider?: (callback: string) => Promise<string> | string;
-  private storagePath: string;
+  private deviceCodeOptions?: DeviceCodeOptions;
+  private interactiveLoginOptions?: InteractiveLoginOptions;
+  private redirectUri: string = DEFAULT_REDIRECT_URI;
+  private tokenStore: TokenStore = new FileTokenStore();
+  private storageKey: string = getStorageKey();
   private clientId: string = '';
   private clientSecret: string = '';
+  private clientCertificate?: ClientCertificate;
   private tenantId: string = '';
   private isAccessTokenOnly: boolean = false;
+  private isAppOnly: boolean = false;
+  private userId?: string;
   private scopes: string[] = DEFAULT_SCOPES;
   private scopesConfigured: boolean = false;
   private allowInsecure: boolean = false;
-  private isRetrying: boolean = false;
+  private graphEndpoint: string = DEFAULT_GRAPH_ENDPOINT;
+  private graphVersion: string = DEFAULT_GRAPH_VERSION;
+  private authorityHost: string = DEFAULT_AUTHORITY_HOST;
+  private unauthorizedRecoveryPromise: Promise<void> | null = null;
+  private hooks: AuthHooks = {};
+  private logger: Logger = new ConsoleLogger();
+  private expirySkewMs: number = DEFAULT_EXPIRY_SKEW_MS;
+  private retry?: RetryOptions | false;
+  private rateLimit?: RateLimitConfig | false;
+  private backgroundRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private backgroundRefreshActive: boolean = false;
+  private backgroundRefreshGeneration: number = 0; // Bumped on start/stop to retire older loops
+  private refreshTokenIssuedAt?: number;
+  private signedInAt?: number;
 
   /**
    * Get configured Axon instance with appropriate security settings
    * Uses Axon.dev() when allowInsecure is true, Axon.new() otherwise
+   * Requests and responses are logged (redacted) when the logger has debug enabled
+   * Requests are queued by the shared scheduler for this tenant and host (rate limit and
+   * concurrency cap); throttled (429) and unavailable (503/504) responses are retried per the
+   * retry policy
+   *
+   * @param options - Per-call options; `retry` overrides the configured retry policy, and once
+   *   `signal` aborts, queued requests are dropped, backoff stops and pending requests reject
+   */
+  getAxon(options: RequestOptions = {}) {
+    const client = withRequestScheduling(
+      withRequestLogging(this.allowInsecure ? Axon.dev() : Axon.new(), this.logger),
+      this.tenantId,
+      this.rateLimit,
+      options.signal
+    );
+    return withAbortSignal(
+      withThrottlingRetry(client, this.getRetryPolicy(options.retry), this.logger, options.signal),
+      options.signal
+    );
+  }
+
+  /**
+   * Get the retry policy in effect, optionally with a per-call override applied
+   *
+   * @returns The policy, or undefined when retries are disabled
+   */
+  getRetryPolicy(override?: RetryOptions | false): RetryPolicy | undefined {
+    return resolveRetryPolicy(this.retry, override);
+  }
+
+  /**
+   * Start a JSON batch sent with this instance's credentials
+   *
+   * @param options - Options for the `/$batch` calls (e.g. a retry override)
+   *
+   * @example
+   * const batch = auth.batch();
+   * const a = batch.add({ method: 'GET', url: '/me' });
+   * const b = batch.add({ method: 'GET', url: '/me/joinedTeams' });
+   * await batch.execute();
+   */
+  batch(options: RequestOptions = {}): GraphBatch {
+    return new GraphBatch(this, options);
+  }
+
+  /**
+   * Get the configured logger
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * Get the Microsoft Graph base URL (endpoint + API version)
+   *
+   * @example
+   * auth.getGraphBaseUrl(); // 'https://graph.microsoft.com/v1.0'
+   */
+  getGraphBaseUrl(): string {
+    return `${this.graphEndpoint}/${this.graphVersion}`;
+  }
+
+  /**
+   * Get the OAuth 2.0 endpoint URL for the configured authority and tenant
+   */
+  private getAuthorityUrl(endpoint: 'authorize' | 'token' | 'devicecode'): string {
+    return `${this.authorityHost}/${this.tenantId}/oauth2/v2.0/${endpoint}`;
+  }
+
+  /**
+   * Get the Graph path for the target user
+   * Returns `/users/{userId}` when a user ID or UPN is given (or configured), `/me` otherwise
+   *
+   * @param userId - Optional user ID or UPN (overrides the configured userId)
+   * @throws Error in app-only mode when no user is specified (`/me` has no meaning without a signed-in user)
+   *
+   * @example
+   * auth.getUserPath(); // '/me'
+   * auth.getUserPath('jane@contoso.com'); // '/users/jane%40contoso.com'
    */
-  getAxon() {
-    return this.allowInsecure ? Axon.dev() : Axon.new();
+  getUserPath(userId?: string): string {
+    const targetUserId = userId || this.userId;
+
+    if (targetUserId) {
+      return `/users/${encodeURIComponent(targetUserId)}`;
+    }
+
+    if (this.isAppOnly) {
+      throw new Error(
+        'User ID is required in app-only mode. Provide it via:\n' +
+          "1. new Service({ appOnly: true, userId: 'user@contoso.com', ... })\n" +
+          "2. service.setUserId('user@contoso.com')\n"
+      );
+    }
+
+    return '/me';
   }
 
   /**
    * Wrapper for API requests with automatic 401 retry
+   * Each operation retries once; concurrent 401s share a single token refresh
    * @param operation The API operation to execute
+   * @param options `signal` stops waiting for the token refresh and skips the retry once aborted
    * @returns The result of the operation
    */
-  async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+  async withRetry<T>(
+    operation: () => Promise<T>,
+    options: Pick<CancellationOptions, 'signal'> = {}
+  ): Promise<T> {
+    const tokenAtStart = this.accessToken;
+    let unauthorized: AxonError;
+
     try {
       return await operation();
     } catch (error: unknown) {
-      // Only retry on 401 and only once
-      if (error instanceof AxonError && error.status === 401 && !this.isRetrying) {
-        this.isRetrying = true;
-        try {
-          console.warn('Received 401, attempting to refresh token and retry...');
-          await this.invalidateAndRefresh();
-
-          // Retry the operation once
-          return await operation();
-        } finally {
-          this.isRetrying = false;
-        }
+      const isUnauthorized = error instanceof AxonError && error.status === 401;
+      // Only retry on 401, and only when there is a way to get a new token
+      const willRetry = isUnauthorized && this.canRenewToken();
+      this.emitAuthError(error, willRetry);
+      if (isUnauthorized && !willRetry) {
+        this.handleApiError(error);
+      }
+      if (!willRetry) {
+        throw this.enhanceError(error);
+      }
+      unauthorized = error as AxonError;
+    }
+
+    this.logger.warn('Received 401, attempting to refresh token and retry...');
+    try {
+      await abortable(this.recoverFromUnauthorized(tokenAtStart), options.signal);
+    } catch (recoveryError) {
+      if (recoveryError instanceof RequestAbortedError) {
+        throw recoveryError;
       }
+      throw this.createUnrecoverableAuthError(unauthorized, recoveryError);
+    }
+    throwIfAborted(options.signal);
 
-      // For all other errors or if already retrying, throw with better message
+    // Retry the operation once
+    try {
+      return await operation();
+    } catch (error: unknown) {
+      this.emitAuthError(error, false);
       throw this.enhanceError(error);
     }
   }
 
+  /**
+   * Whether a rejected access token can be replaced: a caller-supplied token only can be when a
+   * refresh token or token provider is configured as well
+   */
+  private canRenewToken(): boolean {
+    return !this.isAccessTokenOnly || !!this.refreshToken || this.hasTokenProvider();
+  }
+
+  /**
+   * Emit onAuthError for 401/403 responses
+   * Only the status, code, message and request ID are passed on: the HTTP error carries the
+   * request config, including the Authorization header
+   */
+  private emitAuthError(error: unknown, willRetry: boolean): void {
+    if (error instanceof AxonError && (error.status === 401 || error.status === 403)) {
+      const { code, message, requestId } = createGraphError(error);
+      this.emit('onAuthError', {
+        ...this.getTokenEventInfo(),
+        status: error.status,
+        code,
+        message,
+        requestId,
+        willRetry,
+      });
+    }
+  }
+
+  /**
+   * Get a new token after a 401, sharing the work between concurrent operations
+   * Operations that fail while a refresh is in flight wait for it; operations that fail after
+   * another one already replaced the rejected token just retry with the new one
+   *
+   * @param rejectedToken - Access token held when the failing operation started
+   */
+  private async recoverFromUnauthorized(rejectedToken: string): Promise<void> {
+    if (this.unauthorizedRecoveryPromise) {
+      await this.unauthorizedRecoveryPromise;
+      return;
+    }
+
+    if (rejectedToken && this.accessToken && this.accessToken !== rejectedToken) {
+      return;
+    }
+
+    this.unauthorizedRecoveryPromise = this.invalidateAndRefresh();
+    try {
+      await this.unauthorizedRecoveryPromise;
+    } finally {
+      this.unauthorizedRecoveryPromise = null;
+    }
+  }
+
   /**
    * Invalidate current tokens and refresh them
    * Called when we receive a 401 from the API despite having a token
    */
   private async invalidateAndRefresh(): Promise<void> {
-    console.info('Token invalidated by 401 response, refreshing...');
+    this.logger.info('Token invalidated by 401 response, refreshing...');
+
+    // Clear current access token (a caller-supplied one is kept until it is replaced)
+    if (!this.isAccessTokenOnly) {
+      this.accessToken = '';
+      this.expiredAt = 0;
+    }
 
-    // Clear current access token
-    this.accessToken = '';
-    this.expiredAt = 0;
+    // App-only mode has no refresh token or provider - just request a new token
+    if (this.isAppOnly) {
+      await this.ensureAppToken();
+      return;
+    }
 
     // Try to refresh using the refresh token
+    let refreshError: unknown;
     if (this.refreshToken) {
       try {
-        await this.refreshAccessToken();
+        await this.refreshAndSave();
         return;
-      } catch {
-        console.warn('Failed to refresh with refresh token, will try provider');
+      } catch (error) {
+        refreshError = error;
+        this.logger.warn('Failed to refresh with refresh token, will try provider');
         // If refresh fails, fall through to use provider
       }
     }
 
     // If no refresh token or refresh failed, use provider
-    if (this.tokenProvider) {
-      await this.forgeRefreshToken();
-      await this.saveToStorage();
+    if (this.hasTokenProvider()) {
+      await this.forgeRefreshToken('refresh_failed');
+      await this.withStorageLock(() => this.saveToStorage());
     } else {
-      throw new Error(
-        'Authentication failed and no token provider configured. ' +
-          'Cannot recover from 401 error.'
+      throw (
+        refreshError ||
+        new Error('No refresh token or token provider configured to get a new token')
       );
     }
   }
 
   /**
-   * Enhance error messages to be more user-friendly
+   * GraphAuthError for a 401 the token could not be renewed for
+   * Keeps the status, Graph error code and request ID of the 401; the original 401 is the cause
+   */
+  private createUnrecoverableAuthError(unauthorized: AxonError, recoveryError: unknown) {
+    const details = getGraphErrorDetails(unauthorized);
+    const reason = recoveryError instanceof Error ? recoveryError.message : String(recoveryError);
+    const suffix = details.requestId ? ` (request-id: ${details.requestId})` : '';
+
+    return new GraphAuthError(
+      `Authentication failed and the token could not be renewed: ${reason}${suffix}`,
+      details
+    );
+  }
+
+  /**
+   * Convert HTTP errors into typed GraphErrors with user-friendly messages
+   * Other errors are passed through unchanged
    */
   private enhanceError(error: unknown): Error {
-    // If it's an AxonError, extract status and provide better messages
     if (error instanceof AxonError) {
-      const status = error.status;
-      const data = error.responseData;
-
-      if (status === 401) {
-        return new Error(
-          'Authentication failed. Please check your credentials or re-authenticate.'
-        );
-      } else if (status === 404) {
-        return new Error(
-          `Resource not found: ${
-            data?.message || data?.error?.message || 'The requested item does not exist'
-          }`
-        );
-      } else if (status === 409) {
-        return new Error(
-          `Conflict: ${
-            data?.message || data?.error?.message || 'An item with this name already exists'
-          }`
-        );
-      } else if (status === 403) {
-        return new Error(
-          `Permission denied: ${
-            data?.message || data?.error?.message || 'You do not have access to this resource'
-          }`
-        );
-      } else if (status && status >= 500) {
-        return new Error(
-          `Microsoft server error (${status}): ${
-            data?.message || data?.error?.message || 'Please try again later'
-          }`
-        );
-      }
+      return createGraphError(error);
     }
 
     // If it's already an Error, return it
@@ -183,16 +440,62 @@ export class AzureAuth {
     return new Error(`Unknown error: ${String(error)}`);
   }
 
+  /**
+   * Build the metadata passed to lifecycle hooks (never includes tokens)
+   */
+  private getTokenEventInfo(): TokenEventInfo {
+    return {
+      tenantId: this.tenantId,
+      clientId: this.clientId,
+      appOnly: this.isAppOnly,
+      expiresAt: this.expiredAt || undefined,
+      refreshTokenIssuedAt: this.refreshTokenIssuedAt,
+      signedInAt: this.signedInAt,
+    };
+  }
+
+  /**
+   * Invoke a lifecycle hook without letting it break authentication
+   */
+  private emit<K extends keyof AuthHooks>(
+    name: K,
+    info: Parameters<NonNullable<AuthHooks[K]>>[0]
+  ): void {
+    const hook = this.hooks[name] as ((info: unknown) => void | Promise<void>) | undefined;
+    if (!hook) {
+      return;
+    }
+
+    const onError = (error: unknown) => this.logger.warn(`${name} hook failed:`, error);
+    try {
+      Promise.resolve(hook(info)).catch(onError);
+    } catch (error) {
+      onError(error);
+    }
+  }
+
+  /**
+   * Emit onRefreshFailed with the token endpoint status and OAuth error code
+   * The original error is not passed on because it may carry the request body (secrets, tokens)
+   */
+  private emitRefreshFailed(grantType: TokenGrantType, failure: GraphAuthError): void {
+    this.emit('onRefreshFailed', {
+      ...this.getTokenEventInfo(),
+      grantType,
+      error: failure,
+      status: failure.status,
+      errorCode: failure.code,
+    });
+  }
+
   constructor(config?: AzureConfig | AzureAuth) {
     // If passed an AzureAuth instance, copy from it
     if (config instanceof AzureAuth) {
       this.copyFrom(config);
-      this.storagePath = this.getDefaultStoragePath();
+      this.updateStorageKey();
       return;
     }
 
-    this.storagePath = this.getDefaultStoragePath();
-
     // Priority order:
     // 1. Explicit config
     // 2. Global instance
@@ -221,10 +524,11 @@ export class AzureAuth {
   }
 
   /**
-   * Reset global instance (useful for testing)
+   * Reset global instance and shared request schedulers (useful for testing)
    */
   static reset(): void {
     AzureAuth.globalInstance = null;
+    resetRequestSchedulers();
   }
 
   /**
@@ -236,12 +540,29 @@ export class AzureAuth {
     this.expiredAt = other.expiredAt;
     this.clientId = other.clientId;
     this.clientSecret = other.clientSecret;
+    this.clientCertificate = other.clientCertificate;
     this.tenantId = other.tenantId;
     this.isAccessTokenOnly = other.isAccessTokenOnly;
+    this.isAppOnly = other.isAppOnly;
+    this.userId = other.userId;
     this.scopes = other.scopes;
     this.scopesConfigured = other.scopesConfigured;
     this.tokenProvider = other.tokenProvider;
+    this.deviceCodeOptions = other.deviceCodeOptions;
+    this.interactiveLoginOptions = other.interactiveLoginOptions;
+    this.redirectUri = other.redirectUri;
+    this.tokenStore = other.tokenStore;
     this.allowInsecure = other.allowInsecure;
+    this.graphEndpoint = other.graphEndpoint;
+    this.graphVersion = other.graphVersion;
+    this.authorityHost = other.authorityHost;
+    this.hooks = other.hooks;
+    this.logger = other.logger;
+    this.expirySkewMs = other.expirySkewMs;
+    this.retry = other.retry;
+    this.rateLimit = other.rateLimit;
+    this.refreshTokenIssuedAt = other.refreshTokenIssuedAt;
+    this.signedInAt = other.signedInAt;
   }
 
   /**
@@ -275,6 +596,48 @@ export class AzureAuth {
       this.tokenProvider = config.tokenProvider;
     }
 
+    if (config.deviceCode) {
+      this.deviceCodeOptions = config.deviceCode === true ? {} : config.deviceCode;
+    }
+
+    if (config.interactiveLogin) {
+      this.interactiveLoginOptions =
+        config.interactiveLogin === true ? {} : config.interactiveLogin;
+    }
+
+    if (config.redirectUri) {
+      this.redirectUri = config.redirectUri;
+    }
+
+    if (config.hooks) {
+      this.hooks = config.hooks;
+    }
+
+    if (config.expirySkewMs !== undefined) {
+      this.expirySkewMs = config.expirySkewMs;
+    }
+
+    if (config.logger) {
+      this.logger = config.logger;
+    }
+
+    if (config.retry !== undefined) {
+      this.retry = config.retry;
+    }
+
+    if (config.rateLimit !== undefined) {
+      this.rateLimit = config.rateLimit;
+    }
+
+    if (config.tokenStore) {
+      this.tokenStore = config.tokenStore;
+    } else if (config.tokenEncryptionKey || config.logger) {
+      this.tokenStore = new FileTokenStore(undefined, {
+        encryptionKey: config.tokenEncryptionKey,
+        logger: config.logger,
+      });
+    }
+
     if (config.clientId) {
       this.clientId = config.clientId;
     }
@@ -283,10 +646,22 @@ export class AzureAuth {
       this.clientSecret = config.clientSecret;
     }
 
+    if (config.clientCertificate) {
+      this.clientCertificate = config.clientCertificate;
+    }
+
     if (config.tenantId) {
       this.tenantId = config.tenantId;
     }
 
+    if (config.appOnly !== undefined) {
+      this.isAppOnly = config.appOnly;
+    }
+
+    if (config.userId) {
+      this.userId = config.userId;
+    }
+
     if (config.scopes && !this.scopesConfigured) {
       this.scopes = config.scopes;
       this.scopesConfigured = true;
@@ -296,51 +671,36 @@ export class AzureAuth {
       this.allowInsecure = config.allowInsecure;
     }
 
-    this.updateStoragePath();
-  }
-
-  /**
-   * Get access token (auto-refreshes if needed)
-   */
-  async getAccessToken(): Promise<string> {
-    await this.checkToken();
-    return this.accessToken;
-  }
+    if (config.graphEndpoint) {
+      this.graphEndpoint = config.graphEndpoint.replace(/\/+$/, '');
+    }
 
-  /**
-   * Get the storage directory based on platform
-   */
-  private getStorageDirectory(): string {
-    const homeDir = os.homedir();
+    if (config.graphVersion) {
+      this.graphVersion = config.graphVersion.replace(/^\/+|\/+$/g, '');
+    }
 
-    if (process.platform === 'win32') {
-      const localAppData = process.env.LOCALAPPDATA || path.join(homeDir, 'AppData', 'Local');
-      return path.join(localAppData, 'ms-graph-devtools');
-    } else {
-      const configHome = process.env.XDG_CONFIG_HOME || path.join(homeDir, '.config');
-      return path.join(configHome, 'ms-graph-devtools');
+    if (config.authorityHost) {
+      this.authorityHost = config.authorityHost.replace(/\/+$/, '');
     }
+
+    this.updateStorageKey();
   }
 
   /**
-   * Get storage path for tokens
+   * Get access token (auto-refreshes if needed)
+   *
+   * @param options - `signal` / `timeoutMs` to stop waiting for a refresh
    */
-  private getDefaultStoragePath(): string {
-    const baseDir = this.getStorageDirectory();
-
-    if (this.tenantId && this.clientId) {
-      const filename = `tokens.${this.tenantId}.${this.clientId}.json`;
-      return path.join(baseDir, filename);
-    }
-
-    return path.join(baseDir, 'tokens.json');
+  async getAccessToken(options: CancellationOptions = {}): Promise<string> {
+    await this.checkToken(options);
+    return this.accessToken;
   }
 
   /**
-   * Update storage path based on current tenant/client
+   * Update storage key based on current tenant/client
    */
-  private updateStoragePath(): void {
-    this.storagePath = this.getDefaultStoragePath();
+  private updateStorageKey(): void {
+    this.storageKey = getStorageKey(this.tenantId, this.clientId);
   }
 
   /**
@@ -362,15 +722,84 @@ export class AzureAuth {
         expiresAt: this.expiredAt,
         clientId: this.clientId,
         tenantId: this.tenantId,
+        refreshTokenIssuedAt: this.refreshTokenIssuedAt,
+        signedInAt: this.signedInAt,
       };
 
-      const dir = path.dirname(this.storagePath);
-      await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+      await this.tokenStore.set(this.storageKey, credentials);
+    } catch (error) {
+      this.logger.error('Failed to save credentials to storage:', error);
+      return;
+    }
+
+    this.emit('onTokenPersisted', { ...this.getTokenEventInfo(), storageKey: this.storageKey });
+  }
 
-      await fs.writeFile(this.storagePath, JSON.stringify(credentials, null, 2), { mode: 0o600 });
+  /**
+   * Run an operation while holding the token store's cross-process lock (if it has one)
+   * Fails when the lock cannot be acquired: refreshing unlocked could race another process
+   * rotating the same refresh token
+   */
+  private async withStorageLock<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.isAccessTokenOnly || !this.tokenStore.lock) {
+      return operation();
+    }
+
+    let release: () => Promise<void>;
+    try {
+      release = await this.tokenStore.lock(this.storageKey);
     } catch (error) {
-      console.error('Failed to save credentials to storage:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to acquire token store lock, token not refreshed: ${message}`);
+    }
+
+    try {
+      return await operation();
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Refresh the access token and persist the result under the storage lock
+   * Another process sharing the store may have rotated the refresh token while we
+   * waited for the lock, so stored credentials are re-read first
+   */
+  private async refreshAndSave(): Promise<void> {
+    await this.withStorageLock(async () => {
+      if (await this.adoptRotatedCredentials()) {
+        return;
+      }
+
+      await this.refreshAccessToken();
+      await this.saveToStorage();
+    });
+  }
+
+  /**
+   * Pick up credentials another process stored since we last loaded them
+   * Returns true when the stored access token is still valid and no refresh is needed
+   */
+  private async adoptRotatedCredentials(): Promise<boolean> {
+    let credentials: StoredCredentials | null;
+    try {
+      credentials = await this.tokenStore.get(this.storageKey);
+    } catch {
+      return false;
+    }
+
+    if (!credentials?.refreshToken || credentials.refreshToken === this.refreshToken) {
+      return false;
     }
+
+    this.logger.info('Using credentials refreshed by another process');
+    this.refreshToken = credentials.refreshToken;
+    this.accessToken = credentials.accessToken;
+    this.expiredAt = credentials.expiresAt || 0;
+    this.refreshTokenIssuedAt = credentials.refreshTokenIssuedAt;
+    this.signedInAt = credentials.signedInAt;
+
+    return !!this.accessToken && this.isTokenFresh();
   }
 
   /**
@@ -378,19 +807,27 @@ export class AzureAuth {
    */
   private async loadFromStorage(): Promise<boolean> {
     try {
-      const data = await fs.readFile(this.storagePath, 'utf-8');
-      const credentials: StoredCredentials = JSON.parse(data);
+      const credentials = await this.tokenStore.get(this.storageKey);
+      if (!credentials) {
+        return false;
+      }
 
       this.refreshToken = credentials.refreshToken;
       this.accessToken = credentials.accessToken;
       this.expiredAt = credentials.expiresAt;
       this.clientId = credentials.clientId;
       this.tenantId = credentials.tenantId;
+      this.refreshTokenIssuedAt = credentials.refreshTokenIssuedAt;
+      this.signedInAt = credentials.signedInAt;
 
-      this.updateStoragePath();
+      this.updateStorageKey();
 
       return true;
-    } catch {
+    } catch (error) {
+      // A wrong encryption key must not silently fall through to the token provider
+      if (error instanceof TokenDecryptionError) {
+        throw error;
+      }
       return false;
     }
   }
@@ -399,13 +836,15 @@ export class AzureAuth {
    * Ensure we have required credentials
    */
   private ensureCredentials(): void {
-    this.updateStoragePath();
+    this.updateStorageKey();
 
-    if (!this.clientId || !this.clientSecret || !this.tenantId) {
+    const hasClientCredential = !!this.clientSecret || !!this.clientCertificate;
+
+    if (!this.clientId || !hasClientCredential || !this.tenantId) {
       throw new Error(
         'Missing required credentials. Please provide:\n' +
           (!this.clientId ? '  - clientId\n' : '') +
-          (!this.clientSecret ? '  - clientSecret\n' : '') +
+          (!hasClientCredential ? '  - clientSecret or clientCertificate\n' : '') +
           (!this.tenantId ? '  - tenantId\n' : '') +
           '\nProvide via:\n' +
           "1. new Service({ clientId: '...', clientSecret: '...', tenantId: '...' })\n" +
@@ -466,11 +905,11 @@ export class AzureAuth {
     }
 
     // Only use tokenProvider if storage didn't have tokens
-    if (this.tokenProvider) {
+    if (this.hasTokenProvider()) {
       this.storageLoadPromise = (async () => {
         await this.forgeRefreshToken();
-        await this.saveToStorage();
-        console.info('Obtained tokens from token provider');
+        await this.withStorageLock(() => this.saveToStorage());
+        this.logger.info('Obtained tokens from token provider');
       })();
       try {
         await this.storageLoadPromise;
@@ -484,54 +923,267 @@ export class AzureAuth {
       'No refresh token available. Please provide one via:\n' +
         "1. new Service({ refreshToken: 'your-token' })\n" +
         "2. Azure.config({ refreshToken: 'your-token' })\n" +
-        '3. Saved storage file at: ' +
-        this.storagePath +
-        '\n' +
-        '4. tokenProvider function\n\n' +
+        '3. Stored credentials (token store key: ' +
+        this.storageKey +
+        ')\n' +
+        '4. tokenProvider function, interactiveLogin: true or deviceCode: true\n\n' +
         'See documentation for how to obtain a refresh token.'
     );
   }
 
   /**
    * Check if token needs refresh
+   * A refresh is shared with concurrent callers, so cancelling stops this caller waiting for it
+   * (rejecting with a RequestAbortedError) while the refresh itself completes for the others
+   *
+   * @param options - `signal` / `timeoutMs` to stop waiting for a refresh
+   */
+  async checkToken(options: CancellationOptions = {}): Promise<void> {
+    return withCancellation(options, () => this.ensureAccessToken());
+  }
+
+  /**
+   * Refresh the access token when it is missing or about to expire
    */
-  async checkToken(): Promise<void> {
+  private async ensureAccessToken(): Promise<void> {
     if (this.isAccessTokenOnly) {
       return;
     }
 
     this.ensureCredentials();
+
+    if (this.isAppOnly) {
+      await this.ensureAppToken();
+      return;
+    }
+
     await this.ensureRefreshToken();
 
     if (this.tokenRefreshPromise) {
       await this.tokenRefreshPromise;
-      if (this.refreshToken && this.expiredAt && Date.now() < this.expiredAt) {
+      if (this.refreshToken && this.isTokenFresh()) {
         return;
       }
     }
 
-    if (this.expiredAt && Date.now() >= this.expiredAt) {
-      this.tokenRefreshPromise = this.refreshAccessToken();
+    // Also refresh when we hold only a refresh token (no access token or unknown expiry)
+    if (!this.accessToken || !this.isTokenFresh()) {
+      this.tokenRefreshPromise = this.refreshAndSave();
 
       try {
         await this.tokenRefreshPromise;
-        await this.saveToStorage();
       } finally {
         this.tokenRefreshPromise = null;
       }
     }
   }
 
+  /**
+   * Whether the access token is known to stay valid for longer than the expiry skew
+   */
+  private isTokenFresh(): boolean {
+    return !!this.expiredAt && Date.now() < this.expiredAt - this.expirySkewMs;
+  }
+
+  /**
+   * Start renewing the token in the background ahead of expiry (for long-running daemons)
+   * Renews immediately, then expirySkewMs before each expiry. The timer does not keep the
+   * process alive; call stopBackgroundRefresh() on shutdown
+   */
+  startBackgroundRefresh(): void {
+    if (this.isAccessTokenOnly) {
+      throw new Error(
+        'Background refresh is not available in access-token-only mode.\n' +
+          'Provide a refreshToken, a token provider or appOnly credentials.'
+      );
+    }
+
+    if (this.backgroundRefreshActive) {
+      return;
+    }
+
+    this.backgroundRefreshActive = true;
+    this.backgroundRefreshGeneration++;
+    this.scheduleBackgroundRefresh(0, this.backgroundRefreshGeneration);
+  }
+
+  /**
+   * Stop background renewal started by startBackgroundRefresh()
+   */
+  stopBackgroundRefresh(): void {
+    this.backgroundRefreshActive = false;
+    this.backgroundRefreshGeneration++;
+
+    if (this.backgroundRefreshTimer) {
+      clearTimeout(this.backgroundRefreshTimer);
+      this.backgroundRefreshTimer = null;
+    }
+  }
+
+  /**
+   * Whether background renewal is running
+   */
+  isBackgroundRefreshActive(): boolean {
+    return this.backgroundRefreshActive;
+  }
+
+  private scheduleBackgroundRefresh(delayMs: number, generation: number): void {
+    this.backgroundRefreshTimer = setTimeout(() => {
+      this.backgroundRefreshTimer = null;
+      void this.runBackgroundRefresh(generation);
+    }, delayMs);
+    this.backgroundRefreshTimer.unref?.();
+  }
+
+  /**
+   * Renew once, then schedule the next renewal unless the loop was stopped (or restarted) while
+   * this renewal was running
+   */
+  private async runBackgroundRefresh(generation: number): Promise<void> {
+    let delayMs = BACKGROUND_REFRESH_RETRY_MS;
+
+    try {
+      await this.checkToken();
+
+      if (this.expiredAt) {
+        delayMs = Math.max(
+          this.expiredAt - this.expirySkewMs - Date.now(),
+          MIN_BACKGROUND_REFRESH_DELAY_MS
+        );
+      }
+    } catch (error) {
+      this.logger.error('Background token refresh failed, will retry:', error);
+    }
+
+    if (this.backgroundRefreshActive && generation === this.backgroundRefreshGeneration) {
+      this.scheduleBackgroundRefresh(delayMs, generation);
+    }
+  }
+
+  /**
+   * Get client authentication parameters for a token request
+   * Signs a fresh client assertion per request when a certificate is configured
+   */
+  private getClientAuthParams(tokenUrl: string): { [key: string]: string } {
+    return getClientAuthParams(this.clientId, tokenUrl, this.clientSecret, this.clientCertificate);
+  }
+
+  /**
+   * Ensure we have a valid app-only access token
+   * Concurrent calls share a single in-flight token request via tokenRefreshPromise
+   */
+  private async ensureAppToken(): Promise<void> {
+    if (this.tokenRefreshPromise) {
+      await this.tokenRefreshPromise;
+    }
+
+    if (this.accessToken && this.isTokenFresh()) {
+      return;
+    }
+
+    // Another caller may have started a request while we were waiting
+    if (this.tokenRefreshPromise) {
+      await this.tokenRefreshPromise;
+      return;
+    }
+
+    this.tokenRefreshPromise = this.acquireAppToken();
+
+    try {
+      await this.tokenRefreshPromise;
+    } finally {
+      this.tokenRefreshPromise = null;
+    }
+  }
+
+  /**
+   * Get scopes for the current mode
+   * App-only tokens must use the resource's `.default` scope unless scopes were configured explicitly
+   */
+  private getAppScopes(): string[] {
+    return this.scopesConfigured ? this.scopes : [`${this.graphEndpoint}/.default`];
+  }
+
+  /**
+   * Acquire app-only access token via OAuth client credentials flow
+   */
+  private async acquireAppToken(): Promise<void> {
+    const url = this.getAuthorityUrl('token');
+
+    const reqTokenBody = {
+      client_id: this.clientId,
+      ...this.getClientAuthParams(url),
+      scope: this.getAppScopes().join(' '),
+      grant_type: 'client_credentials',
+    };
+
+    try {
+      const res = await this.getAxon().encodeUrl().post(url, reqTokenBody);
+
+      if (res.status === 200) {
+        this.accessToken = res.data.access_token;
+        this.expiredAt = Date.now() + res.data.expires_in * 1000;
+      } else {
+        this.logger.error(
+          `Failed to acquire app token: ${res.status} ${JSON.stringify(redact(res.data))}`
+        );
+        throw createTokenEndpointError('Failed to acquire app-only access token', {
+          status: res.status,
+          responseData: res.data,
+        });
+      }
+    } catch (error) {
+      this.logger.error('Error acquiring app token:', sanitizeError(error));
+      const failure =
+        error instanceof GraphAuthError
+          ? error
+          : createTokenEndpointError('Failed to acquire app-only access token', error);
+      this.emitRefreshFailed('client_credentials', failure);
+      throw failure;
+    }
+
+    this.emit('onTokenRefreshed', { ...this.getTokenEventInfo(), grantType: 'client_credentials' });
+  }
+
+  /**
+   * Check if a token provider (custom or built-in) is configured
+   */
+  private hasTokenProvider(): boolean {
+    return !!this.tokenProvider || !!this.interactiveLoginOptions || !!this.deviceCodeOptions;
+  }
+
+  /**
+   * Build the OAuth authorize URL for the authorization code flow
+   */
+  private buildAuthorizeUrl(redirectUri: string, extraParams: string[] = []): string {
+    return (
+      `${this.getAuthorityUrl('authorize')}?` +
+      [
+        `client_id=${this.clientId}`,
+        'response_type=code',
+        `redirect_uri=${encodeURIComponent(redirectUri)}`,
+        `scope=${this.scopes.join('%20')}`,
+        'response_mode=query',
+        ...extraParams,
+      ].join('&')
+    );
+  }
+
   /**
    * Forge new refresh token via OAuth authorization code flow
    * Uses tokenProvider to get authorization code, then exchanges for tokens
+   * Falls back to the built-in interactive login, then the device code flow
    */
-  private async forgeRefreshToken(): Promise<void> {
-    if (!this.tokenProvider) {
+  private async forgeRefreshToken(
+    reason: ProviderInvokedInfo['reason'] = 'no_refresh_token'
+  ): Promise<void> {
+    if (!this.hasTokenProvider()) {
       throw new Error(
         'No token provider configured. Please provide one via:\n' +
           '1. new Service({ tokenProvider: async (callback) => { ... } })\n' +
-          "2. Provide refreshToken directly: new Service({ refreshToken: '...' })\n" +
+          '2. Built-in browser login: new Service({ interactiveLogin: true })\n' +
+          '3. Built-in device code flow: new Service({ deviceCode: true })\n' +
+          "4. Provide refreshToken directly: new Service({ refreshToken: '...' })\n" +
           '\nExample with Playwright:\n' +
           '  new Outlook({\n' +
           '    tokenProvider: async (callback) => await Playwright.getAzureCode(callback)\n' +
@@ -539,27 +1191,52 @@ export class AzureAuth {
       );
     }
 
-    const callback =
-      `https://login.microsoftonline.com/${this.tenantId}/oauth2/v2.0/authorize?` +
-      [
-        `client_id=${this.clientId}`,
-        'response_type=code',
-        `redirect_uri=${REDIRECT_URI}`,
-        `scope=${this.scopes.join('%20')}`,
-        'response_mode=query',
-      ].join('&');
+    const provider: TokenProviderKind = this.tokenProvider
+      ? 'tokenProvider'
+      : this.interactiveLoginOptions
+        ? 'interactiveLogin'
+        : 'deviceCode';
+    this.emit('onProviderInvoked', { ...this.getTokenEventInfo(), provider, reason });
+
+    if (this.tokenProvider) {
+      const code = await this.tokenProvider(this.buildAuthorizeUrl(this.redirectUri));
+      await this.exchangeAuthorizationCode(code, this.redirectUri);
+    } else if (this.interactiveLoginOptions) {
+      await this.forgeRefreshTokenByLoopback(this.interactiveLoginOptions);
+    } else if (this.deviceCodeOptions) {
+      await this.forgeRefreshTokenByDeviceCode(this.deviceCodeOptions);
+    }
 
-    const code = await this.tokenProvider(callback);
+    this.signedInAt = Date.now();
+    this.refreshTokenIssuedAt = this.signedInAt;
+    this.emit('onTokenRefreshed', {
+      ...this.getTokenEventInfo(),
+      grantType: provider === 'deviceCode' ? 'device_code' : 'authorization_code',
+    });
+  }
 
-    const url = `https://login.microsoftonline.com/${this.tenantId}/oauth2/v2.0/token`;
+  /**
+   * Exchange an authorization code for access and refresh tokens
+   *
+   * @param code - Authorization code from the redirect
+   * @param redirectUri - Redirect URI used in the authorize request (must match)
+   * @param codeVerifier - PKCE code verifier, when the authorize request used a code challenge
+   */
+  private async exchangeAuthorizationCode(
+    code: string,
+    redirectUri: string,
+    codeVerifier?: string
+  ): Promise<void> {
+    const url = this.getAuthorityUrl('token');
 
     const reqTokenBody = {
       client_id: this.clientId,
-      client_secret: this.clientSecret,
+      ...this.getClientAuthParams(url),
       code: code,
-      redirect_uri: REDIRECT_URI,
+      redirect_uri: redirectUri,
       grant_type: 'authorization_code',
       scope: this.scopes.join(' '),
+      ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
     };
 
     try {
@@ -570,28 +1247,148 @@ export class AzureAuth {
         this.expiredAt = Date.now() + res.data.expires_in * 1000;
         this.refreshToken = res.data.refresh_token;
       } else {
-        console.error(`Failed to forge refresh token: ${res.status} ${JSON.stringify(res.data)}`);
+        this.logger.error(
+          `Failed to forge refresh token: ${res.status} ${JSON.stringify(redact(res.data))}`
+        );
         throw new Error('Failed to forge refresh token');
       }
     } catch (error) {
-      console.error('Error forging refresh token:', error);
+      this.logger.error('Error forging refresh token:', sanitizeError(error));
       throw error;
     }
   }
 
+  /**
+   * Forge new refresh token via interactive browser login
+   * Starts a localhost listener, sends the user to the authorize URL (PKCE + state),
+   * and exchanges the captured code for tokens
+   */
+  private async forgeRefreshTokenByLoopback(options: InteractiveLoginOptions): Promise<void> {
+    const pkce = createPkcePair();
+    const state = createState();
+    const server = await startLoopbackServer(
+      state,
+      options.port ?? 0,
+      options.timeoutMs ?? DEFAULT_INTERACTIVE_LOGIN_TIMEOUT_MS
+    );
+
+    try {
+      const authorizeUrl = this.buildAuthorizeUrl(server.redirectUri, [
+        `state=${state}`,
+        `code_challenge=${pkce.codeChallenge}`,
+        'code_challenge_method=S256',
+      ]);
+
+      if (options.openBrowser) {
+        await options.openBrowser(authorizeUrl);
+      } else {
+        this.logger.info(`Open the following URL in your browser to sign in:\n${authorizeUrl}`);
+      }
+
+      const code = await server.waitForCode();
+      await this.exchangeAuthorizationCode(code, server.redirectUri, pkce.codeVerifier);
+    } finally {
+      server.close();
+    }
+  }
+
+  /**
+   * Forge new refresh token via OAuth device code flow
+   * Shows the user code and verification URL, then polls the token endpoint until the user signs in
+   */
+  private async forgeRefreshTokenByDeviceCode(options: DeviceCodeOptions): Promise<void> {
+    const res = await this.getAxon()
+      .encodeUrl()
+      .post(this.getAuthorityUrl('devicecode'), {
+        client_id: this.clientId,
+        scope: this.scopes.join(' '),
+      });
+
+    if (res.status !== 200) {
+      this.logger.error(
+        `Failed to request device code: ${res.status} ${JSON.stringify(redact(res.data))}`
+      );
+      throw new Error('Failed to request device code');
+    }
+
+    const info: DeviceCodeInfo = {
+      userCode: res.data.user_code,
+      verificationUri: res.data.verification_uri,
+      message: res.data.message,
+      expiresIn: res.data.expires_in,
+    };
+
+    if (options.onDeviceCode) {
+      await options.onDeviceCode(info);
+    } else {
+      this.logger.info(info.message);
+    }
+
+    const url = this.getAuthorityUrl('token');
+    const deadline = Date.now() + info.expiresIn * 1000;
+    let interval = (res.data.interval || 5) * 1000;
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, interval));
+
+      const reqTokenBody = {
+        client_id: this.clientId,
+        ...this.getClientAuthParams(url),
+        device_code: res.data.device_code,
+        grant_type: DEVICE_CODE_GRANT_TYPE,
+      };
+
+      let tokenRes;
+      try {
+        tokenRes = await this.getAxon().encodeUrl().post(url, reqTokenBody);
+      } catch (error) {
+        // Pending/slow_down responses come back as HTTP 400
+        if (!(error instanceof AxonError) || !error.responseData?.error) {
+          throw error;
+        }
+        tokenRes = { status: error.status, data: error.responseData };
+      }
+
+      if (tokenRes.status === 200) {
+        this.accessToken = tokenRes.data.access_token;
+        this.expiredAt = Date.now() + tokenRes.data.expires_in * 1000;
+        this.refreshToken = tokenRes.data.refresh_token;
+        return;
+      }
+
+      const errorCode = tokenRes.data?.error;
+      if (errorCode === 'authorization_pending') {
+        continue;
+      }
+      if (errorCode === 'slow_down') {
+        interval += 5000;
+        continue;
+      }
+
+      this.logger.error(
+        `Device code sign-in failed: ${tokenRes.status} ${JSON.stringify(redact(tokenRes.data))}`
+      );
+      throw new Error(
+        `Device code sign-in failed: ${tokenRes.data?.error_description || errorCode || 'unknown error'}`
+      );
+    }
+
+    throw new Error('Device code expired before sign-in was completed');
+  }
+
   /**
    * Refresh access token
    */
   private async refreshAccessToken(): Promise<void> {
-    const url = `https://login.microsoftonline.com/${this.tenantId}/oauth2/v2.0/token`;
+    const url = this.getAuthorityUrl('token');
 
     const reqTokenBody = {
       client_id: this.clientId,
       scope: this.scopes.join(' '),
       refresh_token: this.refreshToken,
-      redirect_uri: REDIRECT_URI,
+      redirect_uri: this.redirectUri,
       grant_type: 'refresh_token',
-      client_secret: this.clientSecret,
+      ...this.getClientAuthParams(url),
     };
 
     try {
@@ -606,15 +1403,28 @@ export class AzureAuth {
 
         if (res.data.refresh_token) {
           this.refreshToken = res.data.refresh_token;
+          this.refreshTokenIssuedAt = Date.now();
         }
       } else {
-        console.error(`Failed to refresh access token: ${res.status} ${JSON.stringify(res.data)}`);
-        throw new Error('Failed to refresh access token');
+        this.logger.error(
+          `Failed to refresh access token: ${res.status} ${JSON.stringify(redact(res.data))}`
+        );
+        throw createTokenEndpointError('Failed to refresh access token', {
+          status: res.status,
+          responseData: res.data,
+        });
       }
     } catch (error) {
-      console.error('Error refreshing access token:', error);
-      throw new Error('Failed to refresh access token');
+      this.logger.error('Error refreshing access token:', sanitizeError(error));
+      const failure =
+        error instanceof GraphAuthError
+          ? error
+          : createTokenEndpointError('Failed to refresh access token', error);
+      this.emitRefreshFailed('refresh_token', failure);
+      throw failure;
     }
+
+    this.emit('onTokenRefreshed', { ...this.getTokenEventInfo(), grantType: 'refresh_token' });
   }
 
   /**
@@ -622,11 +1432,12 @@ export class AzureAuth {
    */
   handleApiError(error: AxonError): never {
     if (this.isAccessTokenOnly && error.status === 401) {
-      throw new Error(
+      throw new GraphAuthError(
         'Access token is invalid or expired.\n\n' +
           'To continue:\n' +
           "  1. Provide a new access token: new Service({ accessToken: 'new-token' })\n" +
-          '  2. For automatic renewal, see documentation on using refresh tokens\n'
+          '  2. For automatic renewal, see documentation on using refresh tokens\n',
+        getGraphErrorDetails(error)
       );
     }
     throw error;
@@ -634,28 +1445,26 @@ export class AzureAuth {
 
   /**
    * List all stored credentials
+   *
+   * @param store - Optional token store (defaults to the global instance's store)
    */
-  static async listStoredCredentials(): Promise<
-    Array<{ tenantId?: string; clientId?: string; file: string }>
-  > {
-    const instance = new AzureAuth();
-    const baseDir = instance.getStorageDirectory();
+  static async listStoredCredentials(store?: TokenStore): Promise<StoredCredentialsInfo[]> {
+    const tokenStore = store || new AzureAuth().tokenStore;
 
     try {
-      const files = await fs.readdir(baseDir);
-      return files
-        .filter((f) => f.startsWith('tokens') && f.endsWith('.json'))
-        .map((file) => {
-          const parts = file.split('.');
-          if (parts.length === 4 && parts[0] === 'tokens') {
-            return {
-              tenantId: parts[1],
-              clientId: parts[2],
-              file: file,
-            };
-          }
-          return { file: file };
-        });
+      const keys = await tokenStore.list();
+      return keys.map((key) => {
+        const info: StoredCredentialsInfo = { key };
+        const parts = key.split('.');
+        if (parts.length === 2) {
+          info.tenantId = parts[0];
+          info.clientId = parts[1];
+        }
+        if (tokenStore instanceof FileTokenStore) {
+          info.file = path.basename(tokenStore.getFilePath(key));
+        }
+        return info;
+      });
     } catch {
       return [];
     }
@@ -663,28 +1472,31 @@ export class AzureAuth {
 
   /**
    * Clear stored credentials
+   *
+   * @param tenantId - Optional tenant ID to clear specific credentials
+   * @param clientId - Optional client ID to clear specific credentials
+   * @param store - Optional token store (defaults to the global instance's store)
    */
-  static async clearStoredCredentials(tenantId?: string, clientId?: string): Promise<void> {
-    const instance = new AzureAuth();
-    const baseDir = instance.getStorageDirectory();
+  static async clearStoredCredentials(
+    tenantId?: string,
+    clientId?: string,
+    store?: TokenStore
+  ): Promise<void> {
+    const defaults = new AzureAuth();
+    const tokenStore = store || defaults.tokenStore;
 
     try {
       if (tenantId && clientId) {
-        const filename = `tokens.${tenantId}.${clientId}.json`;
-        const filePath = path.join(baseDir, filename);
-        await fs.unlink(filePath);
-        console.info(`Cleared credentials for tenant=${tenantId}, client=${clientId}`);
+        await tokenStore.delete(getStorageKey(tenantId, clientId));
+        defaults.logger.info(`Cleared credentials for tenant=${tenantId}, client=${clientId}`);
       } else {
-        const files = await fs.readdir(baseDir);
-        const tokenFiles = files.filter((f) => f.startsWith('tokens') && f.endsWith('.json'));
+        const keys = await tokenStore.list();
 
-        await Promise.all(tokenFiles.map((file) => fs.unlink(path.join(baseDir, file))));
-        console.info(`Cleared all stored credentials (${tokenFiles.length} files)`);
+        await Promise.all(keys.map((key) => tokenStore.delete(key)));
+        defaults.logger.info(`Cleared all stored credentials (${keys.length} entries)`);
       }
     } catch (error) {
-      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-        console.error('Failed to clear credentials:', error);
-      }
+      defaults.logger.error('Failed to clear credentials:', error);
     }
   }
 }
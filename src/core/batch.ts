@@ -0,0 +1,383 @@
+import type { AzureAuth } from './auth';
+import { BatchRequest, BatchResponse, RequestOptions } from '../types';
+import { delay, withCancellation } from './cancellation';
+import { createGraphError, parseRetryAfter } from './errors';
+import { getRetryDelay, RetryPolicy } from './retry';
+
+/**
+ * Maximum number of sub-requests Graph accepts in one `/$batch` call
+ */
+export const MAX_BATCH_SIZE = 20;
+
+interface PendingRequest {
+  index: number;
+  request: BatchRequest & { id: string };
+  resolve: (response: BatchResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Collects Graph requests and sends them as JSON batches (`/$batch`)
+ * Requests are split into batches of 20, keeping `dependsOn` chains together. Each request's
+ * promise resolves with its own response, or rejects with a GraphError if it failed.
+ * Throttled sub-requests (and 503/504 for retryable methods) are resent per the retry policy.
+ *
+ * @example
+ * const batch = auth.batch();
+ * const created = sharepoint.createListItem('Tasks', { Title: 'A' }, undefined, { batch });
+ * const me = batch.add({ method: 'GET', url: '/me' });
+ * await batch.execute();
+ * console.log((await created).id, (await me).body.displayName);
+ */
+export class GraphBatch {
+  private pending: PendingRequest[] = [];
+  private nextId: number = 1;
+
+  /**
+   * @param auth - AzureAuth instance used to send the batches
+   * @param options - Options for the `/$batch` calls; `retry` also applies to sub-requests, and
+   *   `signal` / `timeoutMs` cover each execute()
+   */
+  constructor(
+    private auth: AzureAuth,
+    private options: RequestOptions = {}
+  ) {}
+
+  /**
+   * Number of requests waiting to be sent
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Queue a request
+   *
+   * @returns Promise for this request's response; settles when the batch is executed
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  add<T = any>(request: BatchRequest): Promise<BatchResponse<T>> {
+    let id = request.id;
+    while (id === undefined) {
+      const candidate = String(this.nextId++);
+      if (!this.pending.some((item) => item.request.id === candidate)) {
+        id = candidate;
+      }
+    }
+
+    if (this.pending.some((item) => item.request.id === id)) {
+      throw new Error(`Duplicate batch request id: ${id}`);
+    }
+    for (const dependency of request.dependsOn || []) {
+      if (!this.pending.some((item) => item.request.id === dependency)) {
+        throw new Error(`Batch request "${id}" depends on unknown request "${dependency}"`);
+      }
+    }
+
+    const url = this.toRelativeUrl(request.url);
+    const promise = new Promise<BatchResponse<T>>((resolve, reject) => {
+      this.pending.push({
+        index: this.pending.length,
+        request: { ...request, id, url },
+        resolve,
+        reject,
+      });
+    });
+
+    // Failures are reported through execute() too, so don't treat an unobserved one as unhandled
+    promise.catch(() => {});
+    return promise;
+  }
+
+  /**
+   * Send all queued requests
+   *
+   * @returns Responses in the order the requests were added (including failed ones)
+   * @throws If a `/$batch` call itself fails or execute() is cancelled; requests not yet answered
+   *   reject with the same error
+   */
+  async execute(): Promise<BatchResponse[]> {
+    const items = this.pending;
+    this.pending = [];
+
+    const responses = new Map<string, BatchResponse>();
+
+    try {
+      await withCancellation(this.options, async (options) => {
+        for (const chunk of chunkRequests(items)) {
+          await this.sendChunk(chunk, responses, options);
+        }
+      });
+    } catch (error) {
+      for (const item of items) {
+        if (!responses.has(item.request.id)) {
+          item.reject(error as Error);
+        }
+      }
+      throw error;
+    }
+
+    return items.map((item) => responses.get(item.request.id)!);
+  }
+
+  /**
+   * Send one batch, resending throttled sub-requests until they succeed or attempts run out
+   */
+  private async sendChunk(
+    chunk: PendingRequest[],
+    responses: Map<string, BatchResponse>,
+    options: RequestOptions
+  ): Promise<void> {
+    const policy = this.auth.getRetryPolicy(options.retry);
+    let remaining = chunk;
+
+    for (let attempt = 1; remaining.length > 0; attempt++) {
+      const results = await this.post(remaining, options);
+      const canRetry = !!policy && attempt < policy.maxAttempts;
+      const retrying = new Set<string>();
+      let retryAfter: number | undefined;
+
+      for (const item of remaining) {
+        const response = results.get(item.request.id);
+        if (!response || !isRetryable(policy, item.request.method, response.status)) {
+          continue;
+        }
+
+        const itemRetryAfter = parseRetryAfter(getHeader(response, 'retry-after'));
+        if (itemRetryAfter !== undefined) {
+          retryAfter = Math.max(retryAfter ?? 0, itemRetryAfter);
+        }
+        if (canRetry) {
+          retrying.add(item.request.id);
+        }
+      }
+
+      // Requests that failed only because a dependency was throttled are resent with it
+      for (const item of remaining) {
+        const response = results.get(item.request.id);
+        if (
+          canRetry &&
+          response?.status === 424 &&
+          (item.request.dependsOn || []).some((dependency) => retrying.has(dependency))
+        ) {
+          retrying.add(item.request.id);
+        }
+      }
+
+      const delayMs = retrying.size > 0 ? getRetryDelay(policy!, attempt, retryAfter) : undefined;
+
+      for (const item of remaining) {
+        const response = results.get(item.request.id) || {
+          id: item.request.id,
+          status: 0,
+          headers: {},
+          body: { error: { message: 'No response returned for batch request' } },
+        };
+
+        if (policy && isRetryable(policy, item.request.method, response.status)) {
+          const willRetry = retrying.has(item.request.id);
+          this.reportThrottled(policy, item, response, attempt, willRetry, delayMs);
+        }
+
+        if (!retrying.has(item.request.id)) {
+          this.settle(item, response);
+          responses.set(item.request.id, response);
+        }
+      }
+
+      if (retrying.size === 0) {
+        return;
+      }
+
+      this.auth
+        .getLogger()
+        .warn(
+          `${retrying.size} batch request(s) throttled, retrying in ${delayMs}ms ` +
+            `(attempt ${attempt + 1}/${policy!.maxAttempts})`
+        );
+      await delay(delayMs, options.signal);
+
+      // Dependencies that already succeeded are not part of the next batch
+      remaining = remaining
+        .filter((item) => retrying.has(item.request.id))
+        .map((item) => ({
+          ...item,
+          request: {
+            ...item.request,
+            dependsOn: item.request.dependsOn?.filter((dependency) => retrying.has(dependency)),
+          },
+        }));
+    }
+  }
+
+  /**
+   * POST one batch and index the responses by request ID
+   */
+  private async post(
+    items: PendingRequest[],
+    options: RequestOptions
+  ): Promise<Map<string, BatchResponse>> {
+    const { signal } = options;
+    await this.auth.checkToken({ signal });
+    return this.auth.withRetry(
+      async () => {
+        const token = await this.auth.getAccessToken({ signal });
+        const url = `${this.auth.getGraphBaseUrl()}/$batch`;
+        const requests = items.map(({ request }) => {
+          const headers =
+            request.body !== undefined
+              ? { 'Content-Type': 'application/json', ...request.headers }
+              : request.headers;
+          return {
+            id: request.id,
+            method: request.method.toUpperCase(),
+            url: request.url,
+            ...(request.body !== undefined && { body: request.body }),
+            ...(headers && { headers }),
+            ...(request.dependsOn?.length && { dependsOn: request.dependsOn }),
+          };
+        });
+
+        const res = await this.auth.getAxon(options).bearer(token).post(url, { requests });
+
+        const results = new Map<string, BatchResponse>();
+        for (const response of res.data?.responses || []) {
+          results.set(String(response.id), {
+            id: String(response.id),
+            status: response.status,
+            headers: response.headers || {},
+            body: response.body,
+          });
+        }
+        return results;
+      },
+      { signal }
+    );
+  }
+
+  /**
+   * Resolve or reject a request's promise from its response
+   */
+  private settle(item: PendingRequest, response: BatchResponse): void {
+    if (response.status >= 200 && response.status < 400) {
+      item.resolve(response);
+      return;
+    }
+
+    const failure = Object.assign(
+      new Error(`Batch request "${item.request.id}" failed with status ${response.status}`),
+      { status: response.status, responseData: response.body, headers: response.headers }
+    );
+    item.reject(createGraphError(failure));
+  }
+
+  /**
+   * Let the retry policy's onThrottled callback count throttled sub-requests
+   */
+  private reportThrottled(
+    policy: RetryPolicy,
+    item: PendingRequest,
+    response: BatchResponse,
+    attempt: number,
+    willRetry: boolean,
+    delayMs: number | undefined
+  ): void {
+    try {
+      policy.onThrottled?.({
+        method: item.request.method.toUpperCase(),
+        url: item.request.url,
+        status: response.status,
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        retryAfter: parseRetryAfter(getHeader(response, 'retry-after')),
+        delayMs: willRetry ? delayMs : undefined,
+        willRetry,
+      });
+    } catch (hookError) {
+      this.auth.getLogger().error('onThrottled hook failed:', hookError);
+    }
+  }
+
+  /**
+   * Batch URLs are relative to the Graph version, e.g. '/me/messages'
+   */
+  private toRelativeUrl(url: string): string {
+    const baseUrl = this.auth.getGraphBaseUrl();
+    if (url.startsWith(baseUrl)) {
+      return url.slice(baseUrl.length) || '/';
+    }
+    if (/^https?:\/\//i.test(url)) {
+      throw new Error(`Batch request URL must be under ${baseUrl}: ${url}`);
+    }
+    return url.startsWith('/') ? url : `/${url}`;
+  }
+}
+
+/**
+ * Throttled (429) sub-requests were not executed, so they are safe to resend whatever the method;
+ * other retryable statuses (503/504) follow the policy's methods
+ */
+function isRetryable(policy: RetryPolicy | undefined, method: string, status: number): boolean {
+  if (!policy || !policy.statuses.includes(status)) {
+    return false;
+  }
+  return status === 429 || policy.methods.includes(method.toUpperCase());
+}
+
+/**
+ * Look up a sub-response header case-insensitively
+ */
+function getHeader(response: BatchResponse, name: string): string | undefined {
+  const key = Object.keys(response.headers).find((header) => header.toLowerCase() === name);
+  return key ? response.headers[key] : undefined;
+}
+
+/**
+ * Split requests into batches of at most MAX_BATCH_SIZE
+ * Requests linked by dependsOn must go in the same batch, so each chain is kept together
+ */
+function chunkRequests(items: PendingRequest[]): PendingRequest[][] {
+  const groups: PendingRequest[][] = [];
+  const groupOf = new Map<string, PendingRequest[]>();
+
+  for (const item of items) {
+    const linked = [
+      ...new Set((item.request.dependsOn || []).map((dependency) => groupOf.get(dependency)!)),
+    ];
+
+    let group = linked[0];
+    if (!group) {
+      group = [];
+      groups.push(group);
+    }
+    for (const other of linked.slice(1)) {
+      group.push(...other);
+      groups.splice(groups.indexOf(other), 1);
+      other.forEach((member) => groupOf.set(member.request.id, group));
+    }
+
+    group.push(item);
+    groupOf.set(item.request.id, group);
+  }
+
+  const chunks: PendingRequest[][] = [];
+  let current: PendingRequest[] = [];
+
+  for (const group of groups) {
+    if (group.length > MAX_BATCH_SIZE) {
+      throw new Error(
+        `Batch requests linked by dependsOn cannot exceed ${MAX_BATCH_SIZE} (got ${group.length})`
+      );
+    }
+    if (current.length + group.length > MAX_BATCH_SIZE) {
+      chunks.push(current);
+      current = [];
+    }
+    current.push(...group.sort((a, b) => a.index - b.index));
+  }
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
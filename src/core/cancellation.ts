@@ -0,0 +1,191 @@
+import { RequestOptions } from '../types';
+import { interceptHttpMethods } from './http';
+
+/**
+ * Cancellation settings of a call
+ */
+export type CancellationOptions = Pick<RequestOptions, 'signal' | 'timeoutMs'>;
+
+/**
+ * The call was cancelled through its AbortSignal
+ * `cause` holds the signal's abort reason, if one was given
+ */
+export class RequestAbortedError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string = 'Request was aborted', cause?: unknown) {
+    super(message);
+    this.name = 'RequestAbortedError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * The call did not finish within its `timeoutMs`
+ */
+export class RequestTimeoutError extends RequestAbortedError {
+  readonly timeoutMs?: number;
+
+  constructor(timeoutMs?: number, cause?: unknown) {
+    super(
+      timeoutMs !== undefined ? `Request timed out after ${timeoutMs}ms` : 'Request timed out',
+      cause
+    );
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Convert an abort reason into a RequestAbortedError
+ * `AbortSignal.timeout()` reasons become RequestTimeoutErrors
+ */
+export function toAbortError(reason: unknown): RequestAbortedError {
+  if (reason instanceof RequestAbortedError) {
+    return reason;
+  }
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return new RequestTimeoutError(undefined, reason);
+  }
+  return new RequestAbortedError(undefined, reason);
+}
+
+/**
+ * Throw a RequestAbortedError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal.reason);
+  }
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts
+ * The underlying work is not stopped; its result is ignored once aborted
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(toAbortError(signal.reason));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Wait for `ms`, rejecting early if the signal aborts
+ */
+export function delay(ms: number | undefined, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(toAbortError(signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortError(signal!.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Combined signal for a call: aborts when the caller's signal does or when `timeoutMs` elapses
+ * Call dispose() once the call is over to stop the timer
+ */
+export interface Cancellation {
+  signal?: AbortSignal; // undefined when the call can't be cancelled
+  dispose(): void;
+}
+
+/**
+ * Start the cancellation of a call (its timeout starts now)
+ */
+export function createCancellation(options: CancellationOptions = {}): Cancellation {
+  const { signal, timeoutMs } = options;
+  if (!signal && timeoutMs === undefined) {
+    return { dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(toAbortError(signal!.reason));
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  if (timeoutMs !== undefined && !controller.signal.aborted) {
+    timer = setTimeout(() => controller.abort(new RequestTimeoutError(timeoutMs)), timeoutMs);
+    // An abandoned iteration must not keep the process alive
+    timer.unref?.();
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Run an operation under the call's signal and timeout
+ * The operation receives the options with the combined signal (and no timeoutMs, so nested
+ * calls share the deadline instead of starting their own)
+ *
+ * @example
+ * return withCancellation(requestOptions, async (options) => {
+ *   const lists = await this.getLists(siteId, options);
+ *   return this.getListItems(lists[0].id, {}, siteId, options);
+ * });
+ */
+export async function withCancellation<T extends CancellationOptions, R>(
+  options: T,
+  operation: (options: T) => Promise<R>
+): Promise<R> {
+  if (!options.signal && options.timeoutMs === undefined) {
+    return operation(options);
+  }
+
+  const cancellation = createCancellation(options);
+  try {
+    throwIfAborted(cancellation.signal);
+    const result = operation({ ...options, signal: cancellation.signal, timeoutMs: undefined });
+    return await abortable(result, cancellation.signal);
+  } finally {
+    cancellation.dispose();
+  }
+}
+
+/**
+ * Wrap an HTTP client so every request rejects with a RequestAbortedError once the signal aborts
+ * Returns the client unchanged when there is no signal
+ */
+export function withAbortSignal<T extends object>(client: T, signal?: AbortSignal): T {
+  if (!signal) {
+    return client;
+  }
+
+  return interceptHttpMethods(client, async (_method, _url, _args, send) => {
+    throwIfAborted(signal);
+    return abortable(send(), signal);
+  });
+}
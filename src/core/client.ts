@@ -0,0 +1,263 @@
+import { AzureAuth } from './auth';
+import { withCancellation } from './cancellation';
+import { toQueryParams } from './odata';
+import { PageIterator } from './paging';
+import {
+  AzureConfig,
+  GraphRequestOptions,
+  GraphResponse,
+  ListOptions,
+  QueryParams,
+} from '../types';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Low-level Microsoft Graph client
+ * Sends any Graph request with the auth, retry, rate limiting, logging and base URL settings of
+ * an AzureAuth instance, so endpoints the services don't wrap need no token handling of their own.
+ *
+ * Paths are relative to the Graph version ('/me/messages'); absolute URLs (e.g. an
+ * `@odata.nextLink`) are used as-is. Bodies are sent as JSON unless they are a Buffer or stream,
+ * which are passed through untouched (set `Content-Type` in `headers`).
+ *
+ * @example
+ * const graph = new GraphClient(); // or Azure.graph
+ * const me = await graph.get<{ displayName: string }>('/me', {
+ *   query: { $select: 'displayName' },
+ * });
+ * await graph.patch(`/me/messages/${id}`, { isRead: true });
+ * const { status, headers } = await graph.request('POST', '/me/sendMail', payload);
+ */
+export class GraphClient {
+  private auth: AzureAuth;
+
+  /**
+   * @param config - Optional config or AzureAuth instance (shared with services built on it)
+   */
+  constructor(config?: AzureConfig | AzureAuth) {
+    if (config instanceof AzureAuth) {
+      this.auth = config;
+    } else {
+      this.auth = new AzureAuth(config);
+    }
+  }
+
+  /**
+   * Get the AzureAuth instance requests are sent with
+   */
+  getAuth(): AzureAuth {
+    return this.auth;
+  }
+
+  /**
+   * Resolve a path against the Graph base URL (absolute URLs are returned unchanged)
+   *
+   * @example
+   * graph.url('/me'); // 'https://graph.microsoft.com/v1.0/me'
+   */
+  url(path: string): string {
+    if (/^https?:\/\//i.test(path)) {
+      return path;
+    }
+    return `${this.auth.getGraphBaseUrl()}${path.startsWith('/') ? path : `/${path}`}`;
+  }
+
+  /**
+   * Send a request and return the full response (status, headers and typed data)
+   * With `options.batch`, the request is queued in the batch and resolves when it is executed.
+   * `signal` and `timeoutMs` cover the token check, the request and its retries.
+   *
+   * @param method - HTTP method
+   * @param path - Path relative to the Graph version, or an absolute URL
+   * @param body - Request body (JSON-serializable, Buffer or stream)
+   * @param options - Query parameters, headers and per-call options
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async request<T = any>(
+    method: HttpMethod,
+    path: string,
+    body?: unknown,
+    options: GraphRequestOptions = {}
+  ): Promise<GraphResponse<T>> {
+    const { query, ...requestOptions } = options;
+    const url = this.url(path);
+    const params = toQueryParams(query);
+
+    // Graph only supports $count on directory objects with eventual consistency
+    const headers = params.$count
+      ? { ConsistencyLevel: 'eventual', ...options.headers }
+      : options.headers;
+
+    return withCancellation(requestOptions, async (callOptions) => {
+      // Queued before the first await, so it is part of the batch even if execute() follows at once
+      if (callOptions.batch) {
+        const res = await callOptions.batch.add<T>({
+          method,
+          url: appendQuery(url, params),
+          body,
+          headers,
+        });
+        return { status: res.status, headers: res.headers, data: res.body };
+      }
+
+      const { signal } = callOptions;
+      await this.auth.checkToken({ signal });
+      return this.auth.withRetry(
+        async () => {
+          const token = await this.auth.getAccessToken({ signal });
+          let client = this.auth.getAxon(callOptions).bearer(token);
+
+          if (Object.keys(params).length > 0) {
+            client = client.params(params);
+          }
+          if (headers && Object.keys(headers).length > 0) {
+            client = client.headers(headers);
+          }
+
+          switch (method) {
+            case 'GET':
+              return client.get(url);
+            case 'DELETE':
+              return client.delete(url);
+            case 'POST':
+              return body === undefined ? client.post(url) : client.post(url, body);
+            case 'PUT':
+              return body === undefined ? client.put(url) : client.put(url, body);
+            case 'PATCH':
+              return body === undefined ? client.patch(url) : client.patch(url, body);
+            default:
+              throw new Error(`Unsupported HTTP method: ${method}`);
+          }
+        },
+        { signal }
+      );
+    });
+  }
+
+  /**
+   * GET a resource
+   *
+   * @returns Response body
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async get<T = any>(path: string, options: GraphRequestOptions = {}): Promise<T> {
+    return (await this.request<T>('GET', path, undefined, options)).data;
+  }
+
+  /**
+   * POST to a resource
+   *
+   * @returns Response body
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async post<T = any>(path: string, body?: unknown, options: GraphRequestOptions = {}): Promise<T> {
+    return (await this.request<T>('POST', path, body, options)).data;
+  }
+
+  /**
+   * PUT a resource
+   *
+   * @returns Response body
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async put<T = any>(path: string, body?: unknown, options: GraphRequestOptions = {}): Promise<T> {
+    return (await this.request<T>('PUT', path, body, options)).data;
+  }
+
+  /**
+   * PATCH a resource
+   *
+   * @returns Response body
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async patch<T = any>(
+    path: string,
+    body?: unknown,
+    options: GraphRequestOptions = {}
+  ): Promise<T> {
+    return (await this.request<T>('PATCH', path, body, options)).data;
+  }
+
+  /**
+   * DELETE a resource
+   *
+   * @returns Response body (usually empty)
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async delete<T = any>(path: string, options: GraphRequestOptions = {}): Promise<T> {
+    return (await this.request<T>('DELETE', path, undefined, options)).data;
+  }
+
+  /**
+   * Page through a collection, following `@odata.nextLink`
+   * Each page is a separate request with its own token check and 401 recovery.
+   *
+   * @param path - Collection path or URL, or a (possibly async) function building it; it is
+   *   called with the iteration's signal when the first page is fetched, so validation errors
+   *   surface as a rejection
+   * @param options - Query for the first page, a transform applied to each page's items, and
+   *   the caller's list options (`pageSize` is sent as `$top`; `signal` and `timeoutMs` cover the
+   *   whole iteration)
+   *
+   * @example
+   * for await (const user of graph.paginate('/users', { pageSize: 999 })) {
+   *   console.log(user.userPrincipalName);
+   * }
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  paginate<T = any>(
+    path: string | ((signal?: AbortSignal) => string | Promise<string>),
+    options: ListOptions &
+      GraphRequestOptions & {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        transform?: (items: any[]) => T[];
+      } = {}
+  ): PageIterator<T> {
+    const { query, transform, pageSize, maxItems, signal, timeoutMs, ...requestOptions } = options;
+
+    return new PageIterator<T>(
+      async (nextLink, pageSignal) => {
+        // nextLink already carries the query of the first request
+        const res = nextLink
+          ? await this.request('GET', nextLink, undefined, {
+              ...requestOptions,
+              signal: pageSignal,
+            })
+          : await this.request(
+              'GET',
+              typeof path === 'function' ? await path(pageSignal) : path,
+              undefined,
+              {
+                ...requestOptions,
+                signal: pageSignal,
+                query: { ...toQueryParams(query), ...(pageSize && { $top: pageSize }) },
+              }
+            );
+
+        const items = res.data?.value || [];
+        return {
+          value: transform ? transform(items) : items,
+          nextLink: res.data?.['@odata.nextLink'] || undefined,
+        };
+      },
+      maxItems,
+      { signal, timeoutMs }
+    );
+  }
+}
+
+/**
+ * Add query parameters to a URL (batch requests carry their query in the URL)
+ */
+function appendQuery(url: string, params: QueryParams): string {
+  const entries = Object.entries(params);
+  if (entries.length === 0) {
+    return url;
+  }
+
+  const search = entries
+    .map(([name, value]) => `${name}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return `${url}${url.includes('?') ? '&' : '?'}${search}`;
+}
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { StoredCredentials } from '../types';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number
+) => Promise<Buffer>;
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/**
+ * On-disk format of encrypted credentials
+ * A fresh salt and IV are generated for every write
+ */
+export interface EncryptedPayload {
+  encrypted: true;
+  version: 1;
+  algorithm: typeof ALGORITHM;
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Thrown when stored credentials cannot be decrypted (wrong or missing key, or corrupted data)
+ */
+export class TokenDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenDecryptionError';
+  }
+}
+
+/**
+ * Check whether parsed file content is an encrypted payload
+ */
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  return (
+    typeof value === 'object' && value !== null && (value as EncryptedPayload).encrypted === true
+  );
+}
+
+/**
+ * Encrypt credentials with AES-256-GCM using a scrypt-derived key
+ *
+ * @param credentials - Credentials to encrypt
+ * @param passphrase - Encryption passphrase or key
+ */
+export async function encryptCredentials(
+  credentials: StoredCredentials,
+  passphrase: string
+): Promise<EncryptedPayload> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const key = await scrypt(passphrase, salt, KEY_LENGTH);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf-8'), cipher.final()]);
+
+  return {
+    encrypted: true,
+    version: 1,
+    algorithm: ALGORITHM,
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt credentials encrypted by encryptCredentials()
+ *
+ * @param payload - Encrypted payload
+ * @param passphrase - Encryption passphrase or key
+ * @throws TokenDecryptionError if the key is wrong or the payload was tampered with
+ */
+export async function decryptCredentials(
+  payload: EncryptedPayload,
+  passphrase: string
+): Promise<StoredCredentials> {
+  const key = await scrypt(passphrase, Buffer.from(payload.salt, 'base64'), KEY_LENGTH);
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(payload.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(payload.data, 'base64')),
+      decipher.final(),
+    ]);
+    return JSON.parse(data.toString('utf-8'));
+  } catch {
+    throw new TokenDecryptionError(
+      'Failed to decrypt stored credentials: the encryption key is wrong or the file is corrupted.\n' +
+        'Check tokenEncryptionKey / MS_GRAPH_TOKEN_ENCRYPTION_KEY, or clear the stored credentials.'
+    );
+  }
+}
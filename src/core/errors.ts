@@ -0,0 +1,244 @@
+/**
+ * Details extracted from a failed Microsoft Graph (or token endpoint) response
+ */
+export interface GraphErrorDetails {
+  status?: number;
+  code?: string; // Graph `error.code` (e.g. 'itemNotFound') or OAuth error (e.g. 'invalid_grant')
+  requestId?: string; // `innerError.request-id` / `request-id` header - cite this in support tickets
+  clientRequestId?: string; // `innerError.client-request-id` / `client-request-id` header
+  date?: string; // `innerError.date`
+  retryAfter?: number; // Seconds from the `Retry-After` header
+  responseData?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Error body shapes returned by Graph (`error` object) and the token endpoint (`error` string)
+ */
+interface GraphErrorBody {
+  message?: string;
+  error_description?: string;
+  error?:
+    | string
+    | {
+        code?: string;
+        message?: string;
+        innerError?: { [key: string]: string | undefined };
+        innererror?: { [key: string]: string | undefined };
+      };
+}
+
+/**
+ * Base class for errors returned by Microsoft Graph
+ * Keeps the HTTP status, Graph error code, request IDs, Retry-After and the original error
+ */
+export class GraphError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly clientRequestId?: string;
+  readonly date?: string;
+  readonly retryAfter?: number;
+  readonly responseData?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: GraphErrorDetails = {}) {
+    super(message);
+    this.name = 'GraphError';
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.clientRequestId = details.clientRequestId;
+    this.date = details.date;
+    this.retryAfter = details.retryAfter;
+    this.responseData = details.responseData;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * 400 - Malformed request (bad filter, invalid payload, ...)
+ */
+export class GraphBadRequestError extends GraphError {
+  constructor(message: string, details: GraphErrorDetails = {}) {
+    super(message, details);
+    this.name = 'GraphBadRequestError';
+  }
+}
+
+/**
+ * 401 - Missing, expired or revoked token
+ */
+export class GraphAuthError extends GraphError {
+  constructor(message: string, details: GraphErrorDetails = {}) {
+    super(message, details);
+    this.name = 'GraphAuthError';
+  }
+}
+
+/**
+ * 403 - Authenticated but not allowed (missing scope or admin consent)
+ */
+export class GraphForbiddenError extends GraphAuthError {
+  constructor(message: string, details: GraphErrorDetails = {}) {
+    super(message, details);
+    this.name = 'GraphForbiddenError';
+  }
+}
+
+/**
+ * 404 - Resource does not exist
+ */
+export class GraphNotFoundError extends GraphError {
+  constructor(message: string, details: GraphErrorDetails = {}) {
+    super(message, details);
+    this.name = 'GraphNotFoundError';
+  }
+}
+
+/**
+ * 409 / 412 - Conflicting change (duplicate name, stale eTag)
+ */
+export class GraphConflictError extends GraphError {
+  constructor(message: string, details: GraphErrorDetails = {}) {
+    super(message, details);
+    this.name = 'GraphConflictError';
+  }
+}
+
+/**
+ * 429 - Throttled; wait `retryAfter` seconds before retrying
+ */
+export class GraphThrottledError extends GraphError {
+  constructor(message: string, details: GraphErrorDetails = {}) {
+    super(message, details);
+    this.name = 'GraphThrottledError';
+  }
+}
+
+/**
+ * 5xx - Microsoft server error (503/504 may carry `retryAfter`)
+ */
+export class GraphServerError extends GraphError {
+  constructor(message: string, details: GraphErrorDetails = {}) {
+    super(message, details);
+    this.name = 'GraphServerError';
+  }
+}
+
+/**
+ * Look up a response header from an HTTP error, whichever shape the client uses
+ */
+function getHeader(error: unknown, name: string): string | undefined {
+  const source = error as {
+    headers?: unknown;
+    responseHeaders?: unknown;
+    response?: { headers?: unknown };
+  };
+  const headers = source.headers || source.responseHeaders || source.response?.headers;
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) {
+      return Array.isArray(value) ? String(value[0]) : String(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+  return undefined;
+}
+
+/**
+ * Extract status, Graph error code, request IDs and Retry-After from an HTTP error
+ */
+export function getGraphErrorDetails(error: unknown): GraphErrorDetails {
+  const { status, responseData } = error as { status?: number; responseData?: GraphErrorBody };
+  const graphError = typeof responseData?.error === 'object' ? responseData.error : undefined;
+  const oauthError = typeof responseData?.error === 'string' ? responseData.error : undefined;
+  const innerError = graphError?.innerError || graphError?.innererror;
+
+  return {
+    status,
+    code: graphError?.code || oauthError,
+    requestId: innerError?.['request-id'] || getHeader(error, 'request-id'),
+    clientRequestId: innerError?.['client-request-id'] || getHeader(error, 'client-request-id'),
+    date: innerError?.date,
+    retryAfter: parseRetryAfter(getHeader(error, 'retry-after')),
+    responseData,
+    cause: error,
+  };
+}
+
+/**
+ * Convert an HTTP error into the matching GraphError subclass
+ * Messages stay user-friendly; the request ID is appended when Graph returned one
+ */
+export function createGraphError(error: unknown): GraphError {
+  const details = getGraphErrorDetails(error);
+  const { status } = details;
+  const data = details.responseData as GraphErrorBody | undefined;
+  const graphMessage =
+    data?.message || (typeof data?.error === 'object' ? data.error.message : undefined);
+  const detail = graphMessage || data?.error_description || (error as Error)?.message;
+  const suffix = details.requestId ? ` (request-id: ${details.requestId})` : '';
+
+  if (status === 400) {
+    return new GraphBadRequestError(
+      `Bad request: ${detail || 'The request was invalid'}${suffix}`,
+      details
+    );
+  } else if (status === 401) {
+    return new GraphAuthError(
+      `Authentication failed. Please check your credentials or re-authenticate.${suffix}`,
+      details
+    );
+  } else if (status === 403) {
+    return new GraphForbiddenError(
+      `Permission denied: ${graphMessage || 'You do not have access to this resource'}${suffix}`,
+      details
+    );
+  } else if (status === 404) {
+    return new GraphNotFoundError(
+      `Resource not found: ${graphMessage || 'The requested item does not exist'}${suffix}`,
+      details
+    );
+  } else if (status === 409 || status === 412) {
+    return new GraphConflictError(
+      `Conflict: ${graphMessage || 'An item with this name already exists'}${suffix}`,
+      details
+    );
+  } else if (status === 429) {
+    const wait = details.retryAfter !== undefined ? ` (retry after ${details.retryAfter}s)` : '';
+    return new GraphThrottledError(
+      `Too many requests: ${detail || 'Request was throttled'}${wait}${suffix}`,
+      details
+    );
+  } else if (status && status >= 500) {
+    return new GraphServerError(
+      `Microsoft server error (${status}): ${graphMessage || 'Please try again later'}${suffix}`,
+      details
+    );
+  }
+
+  return new GraphError(`${detail || 'Request failed'}${suffix}`, details);
+}
@@ -0,0 +1,43 @@
+const HTTP_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete']);
+
+/**
+ * Called in place of an HTTP method; `send` performs the actual request
+ */
+export type HttpInterceptor = (
+  method: string,
+  url: string,
+  args: unknown[],
+  send: () => Promise<unknown>
+) => Promise<unknown>;
+
+/**
+ * Wrap an HTTP client so every get/post/put/patch/delete goes through `intercept`
+ * Builder methods (bearer, params, ...) return wrapped clients so chained calls are
+ * intercepted too
+ */
+export function interceptHttpMethods<T extends object>(client: T, intercept: HttpInterceptor): T {
+  return new Proxy(client, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== 'function') {
+        return value;
+      }
+
+      if (typeof prop === 'string' && HTTP_METHODS.has(prop)) {
+        return (url: string, ...args: unknown[]) =>
+          intercept(prop.toUpperCase(), url, args, () => value.call(target, url, ...args));
+      }
+
+      return (...args: unknown[]) => {
+        const result = value.apply(target, args);
+        if (result === target) {
+          return receiver;
+        }
+        if (result && typeof result === 'object' && typeof result.get === 'function') {
+          return interceptHttpMethods(result, intercept);
+        }
+        return result;
+      };
+    },
+  });
+}
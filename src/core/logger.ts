@@ -0,0 +1,151 @@
+import { Logger, LogLevel } from '../types';
+import { interceptHttpMethods } from './http';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Keys whose values are never written to logs
+ * Matches access/refresh/id tokens, client secrets, client assertions, PKCE verifiers, etc.
+ */
+const SENSITIVE_KEY_PATTERN = /token|secret|password|assertion|authorization|verifier|device_code/i;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Logger writing to the console (default)
+ * Messages below the minimum level are dropped
+ */
+export class ConsoleLogger implements Logger {
+  private minLevel: number;
+
+  /**
+   * @param level - Minimum level to print (default: 'info')
+   */
+  constructor(level: LogLevel = 'info') {
+    this.minLevel = LOG_LEVELS.indexOf(level);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= this.minLevel;
+  }
+
+  debug(message: string, ...meta: unknown[]): void {
+    if (this.isEnabled('debug')) {
+      console.debug(message, ...meta);
+    }
+  }
+
+  info(message: string, ...meta: unknown[]): void {
+    if (this.isEnabled('info')) {
+      console.info(message, ...meta);
+    }
+  }
+
+  warn(message: string, ...meta: unknown[]): void {
+    if (this.isEnabled('warn')) {
+      console.warn(message, ...meta);
+    }
+  }
+
+  error(message: string, ...meta: unknown[]): void {
+    if (this.isEnabled('error')) {
+      console.error(message, ...meta);
+    }
+  }
+}
+
+/**
+ * Logger that discards everything (e.g. for tests)
+ */
+export class SilentLogger implements Logger {
+  isEnabled(): boolean {
+    return false;
+  }
+
+  debug(): void {}
+
+  info(): void {}
+
+  warn(): void {}
+
+  error(): void {}
+}
+
+/**
+ * Deep-copy a value with sensitive fields replaced by '[REDACTED]'
+ *
+ * @param value - Request body, response data, etc.
+ * @param extraKeys - Additional keys to redact (exact match), e.g. 'code' in token requests
+ */
+export function redact(value: unknown, extraKeys: string[] = []): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, extraKeys));
+  }
+
+  if (value && typeof value === 'object' && !Buffer.isBuffer(value)) {
+    const result: { [key: string]: unknown } = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] =
+        SENSITIVE_KEY_PATTERN.test(key) || extraKeys.includes(key)
+          ? REDACTED
+          : redact(item, extraKeys);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Wrap an HTTP client so every get/post/put/patch/delete is logged at debug level
+ * Request bodies and response data are redacted; builder methods (bearer, params, ...)
+ * return wrapped clients so chained calls are logged too.
+ * Returns the client unchanged when the logger has debug output disabled
+ */
+export function withRequestLogging<T extends object>(client: T, logger: Logger): T {
+  if (logger.isEnabled && !logger.isEnabled('debug')) {
+    return client;
+  }
+
+  return interceptHttpMethods(client, async (method, url, args, send) => {
+    const startedAt = Date.now();
+
+    if (args.length > 0 && args[0] !== undefined) {
+      logger.debug(`HTTP ${method} ${url}`, { body: redact(args[0], ['code']) });
+    } else {
+      logger.debug(`HTTP ${method} ${url}`);
+    }
+
+    try {
+      const res = (await send()) as { status?: number; data?: unknown } | undefined;
+      logger.debug(`HTTP ${method} ${url} -> ${res?.status} (${Date.now() - startedAt}ms)`, {
+        data: redact(res?.data),
+      });
+      return res;
+    } catch (error) {
+      const { status, responseData } = error as { status?: number; responseData?: unknown };
+      const outcome = status ? `failed -> ${status}` : 'failed';
+      logger.debug(`HTTP ${method} ${url} ${outcome} (${Date.now() - startedAt}ms)`, {
+        data: redact(responseData),
+      });
+      throw error;
+    }
+  });
+}
+
+/**
+ * Make an error safe to log
+ * HTTP errors can carry the request (headers, token request bodies), so only the message,
+ * status and redacted response data are kept
+ */
+export function sanitizeError(error: unknown): unknown {
+  if (error && typeof error === 'object' && 'status' in error) {
+    const { message, status, responseData } = error as {
+      message?: string;
+      status?: number;
+      responseData?: unknown;
+    };
+    return { message, status, data: redact(responseData) };
+  }
+  return error;
+}
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+
+/**
+ * PKCE verifier/challenge pair (RFC 7636, S256 method)
+ */
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+/**
+ * Ephemeral localhost listener that captures the authorization code from the OAuth redirect
+ */
+export interface LoopbackServer {
+  redirectUri: string;
+  waitForCode(): Promise<string>;
+  close(): void;
+}
+
+/**
+ * Generate a PKCE code verifier and its S256 code challenge
+ */
+export function createPkcePair(): PkcePair {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Generate an unguessable OAuth state value
+ */
+export function createState(): string {
+  return crypto.randomBytes(16).toString('base64url');
+}
+
+/**
+ * Start a localhost listener for the OAuth redirect
+ * Resolves once the server is listening; the code is delivered through waitForCode()
+ *
+ * @param expectedState - State sent in the authorize URL (redirects with any other state are rejected)
+ * @param port - Port to listen on (0 = ephemeral port chosen by the OS)
+ * @param timeoutMs - Time to wait for the redirect before giving up
+ */
+export async function startLoopbackServer(
+  expectedState: string,
+  port: number,
+  timeoutMs: number
+): Promise<LoopbackServer> {
+  let resolveCode: (code: string) => void;
+  let rejectCode: (error: Error) => void;
+  const codePromise = new Promise<string>((resolve, reject) => {
+    resolveCode = resolve;
+    rejectCode = reject;
+  });
+  // Avoid unhandled rejection if the caller closes before awaiting
+  codePromise.catch(() => {});
+
+  const server = http.createServer((req, res) => {
+    const requestUrl = new URL(req.url || '/', 'http://localhost');
+
+    if (requestUrl.pathname !== '/') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const params = requestUrl.searchParams;
+    const error = params.get('error');
+    const code = params.get('code');
+
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+
+    if (params.get('state') !== expectedState) {
+      res.end('<h1>Sign-in failed</h1><p>Invalid state parameter. You can close this window.</p>');
+      rejectCode(new Error('Interactive login failed: state mismatch in redirect'));
+    } else if (error) {
+      res.end('<h1>Sign-in failed</h1><p>You can close this window.</p>');
+      rejectCode(
+        new Error(`Interactive login failed: ${params.get('error_description') || error}`)
+      );
+    } else if (code) {
+      res.end('<h1>Sign-in complete</h1><p>You can close this window.</p>');
+      resolveCode(code);
+    } else {
+      res.end('<h1>Sign-in failed</h1><p>No authorization code received.</p>');
+      rejectCode(new Error('Interactive login failed: no authorization code in redirect'));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, 'localhost', () => resolve());
+  });
+
+  const timer = setTimeout(() => {
+    rejectCode(new Error(`Interactive login timed out after ${timeoutMs}ms`));
+  }, timeoutMs);
+
+  const { port: actualPort } = server.address() as AddressInfo;
+
+  return {
+    redirectUri: `http://localhost:${actualPort}`,
+    waitForCode: () => codePromise,
+    close: () => {
+      clearTimeout(timer);
+      server.close();
+    },
+  };
+}
@@ -0,0 +1,291 @@
+import { QueryInput, QueryParams } from '../types';
+
+/**
+ * Value that can appear on the right-hand side of a filter comparison
+ * Strings are quoted (with quotes escaped), Dates become DateTimeOffset literals, and a
+ * Filter (e.g. `filter.raw('Microsoft.Graph.Importance''high''')`) is inserted as-is
+ */
+export type ODataValue = string | number | boolean | null | Date | Filter;
+
+/**
+ * Property path of T: a top-level property, or a deeper path below one ('fields/Status')
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ODataPath<T = any> = Extract<keyof T, string> | `${Extract<keyof T, string>}/${string}`;
+
+/**
+ * A `$filter` expression
+ * Build one with the `filter` helpers; combine with `.and()`, `.or()` and `.not()`
+ */
+export class Filter {
+  constructor(private readonly expression: string) {}
+
+  and(...others: Filter[]): Filter {
+    return and(this, ...others);
+  }
+
+  or(...others: Filter[]): Filter {
+    return or(this, ...others);
+  }
+
+  not(): Filter {
+    return not(this);
+  }
+
+  toString(): string {
+    return this.expression;
+  }
+}
+
+/**
+ * Format a value as an OData literal
+ *
+ * @example
+ * formatLiteral("O'Brien"); // "'O''Brien'"
+ * formatLiteral(new Date('2024-01-15')); // '2024-01-15T00:00:00Z'
+ */
+export function formatLiteral(value: ODataValue): string {
+  if (value instanceof Filter) {
+    return value.toString();
+  }
+  if (value === null) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      throw new Error('Invalid Date in OData filter');
+    }
+    return value.toISOString().replace('.000Z', 'Z');
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  return String(value);
+}
+
+function compare(operator: string) {
+  return (path: string, value: ODataValue): Filter =>
+    new Filter(`${path} ${operator} ${formatLiteral(value)}`);
+}
+
+function join(operator: 'and' | 'or', filters: Filter[]): Filter {
+  if (filters.length === 0) {
+    throw new Error(`filter.${operator}() needs at least one expression`);
+  }
+  if (filters.length === 1) {
+    return filters[0];
+  }
+  return new Filter(filters.map((item) => `(${item})`).join(` ${operator} `));
+}
+
+function and(...filters: Filter[]): Filter {
+  return join('and', filters);
+}
+
+function or(...filters: Filter[]): Filter {
+  return join('or', filters);
+}
+
+function not(expression: Filter): Filter {
+  return new Filter(`not (${expression})`);
+}
+
+function call(name: string) {
+  return (path: string, value: string): Filter =>
+    new Filter(`${name}(${path},${formatLiteral(value)})`);
+}
+
+function lambda(operator: 'any' | 'all') {
+  return (
+    collection: string,
+    predicate?: (item: string) => Filter,
+    variable: string = 'x'
+  ): Filter =>
+    new Filter(
+      predicate
+        ? `${collection}/${operator}(${variable}:${predicate(variable)})`
+        : `${collection}/${operator}()`
+    );
+}
+
+/**
+ * `$filter` helpers
+ *
+ * @example
+ * const f = filter;
+ * f.and(
+ *   f.eq('isRead', false),
+ *   f.ge('receivedDateTime', new Date('2024-01-01')),
+ *   f.or(f.startsWith('subject', 'Re:'), f.contains('subject', "O'Brien")),
+ *   f.any('categories', (c) => f.eq(c, 'Urgent'))
+ * ).toString();
+ * // "(isRead eq false) and (receivedDateTime ge 2024-01-01T00:00:00Z)
+ * //   and ((startswith(subject,'Re:')) or (contains(subject,'O''Brien')))
+ * //   and (categories/any(x:x eq 'Urgent'))"
+ */
+export const filter = {
+  eq: compare('eq'),
+  ne: compare('ne'),
+  gt: compare('gt'),
+  ge: compare('ge'),
+  lt: compare('lt'),
+  le: compare('le'),
+  /**
+   * `path in ('a', 'b')`
+   */
+  in: (path: string, values: ODataValue[]): Filter =>
+    new Filter(`${path} in (${values.map(formatLiteral).join(', ')})`),
+  and,
+  or,
+  not,
+  startsWith: call('startswith'),
+  endsWith: call('endswith'),
+  contains: call('contains'),
+  /**
+   * `collection/any(x: predicate)`; the predicate receives the lambda variable to build paths on
+   */
+  any: lambda('any'),
+  /**
+   * `collection/all(x: predicate)`
+   */
+  all: lambda('all'),
+  /**
+   * Insert an expression (or literal) exactly as written
+   */
+  raw: (expression: string): Filter => new Filter(expression),
+};
+
+/**
+ * Typed builder for OData query options
+ * ($filter, $select, $orderby, $expand, $search, $top, $count)
+ * Pass it as `query` to GraphClient requests or to any service list method.
+ * `$count` makes the request send `ConsistencyLevel: eventual`, which Graph requires for it.
+ *
+ * @example
+ * const query = new ODataQuery<Message>()
+ *   .filter(filter.eq('isRead', false))
+ *   .select('id', 'subject', 'from')
+ *   .orderBy('receivedDateTime', 'desc')
+ *   .count();
+ * const unread = await Azure.graph.get('/me/messages', { query });
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export class ODataQuery<T = any> {
+  private filters: Filter[] = [];
+  private selected: string[] = [];
+  private ordering: string[] = [];
+  private expanded: string[] = [];
+  private searchTerm?: string;
+  private topCount?: number;
+  private includeCount: boolean = false;
+
+  /**
+   * Add a `$filter` expression; several calls are combined with `and`
+   */
+  filter(expression: Filter | string): this {
+    this.filters.push(expression instanceof Filter ? expression : new Filter(expression));
+    return this;
+  }
+
+  select(...fields: ODataPath<T>[]): this {
+    this.selected.push(...fields);
+    return this;
+  }
+
+  orderBy(field: ODataPath<T>, direction: 'asc' | 'desc' = 'asc'): this {
+    this.ordering.push(direction === 'desc' ? `${field} desc` : field);
+    return this;
+  }
+
+  /**
+   * Add to `$expand`, optionally with nested options, e.g. `expand('fields', '$select=Title')`
+   */
+  expand(field: ODataPath<T>, nestedOptions?: string): this {
+    this.expanded.push(nestedOptions ? `${field}(${nestedOptions})` : field);
+    return this;
+  }
+
+  /**
+   * Set `$search`; the term is quoted, with quotes and backslashes in it escaped
+   *
+   * @example
+   * new ODataQuery().search('subject:"Q3 report"'); // $search="subject:\"Q3 report\""
+   */
+  search(term: string): this {
+    this.searchTerm = term;
+    return this;
+  }
+
+  top(count: number): this {
+    this.topCount = count;
+    return this;
+  }
+
+  /**
+   * Ask Graph for `@odata.count` (sends `ConsistencyLevel: eventual`)
+   */
+  count(enabled: boolean = true): this {
+    this.includeCount = enabled;
+    return this;
+  }
+
+  /**
+   * Query parameters for this query
+   */
+  toParams(): QueryParams {
+    const params: QueryParams = {};
+    if (this.filters.length > 0) params.$filter = and(...this.filters).toString();
+    if (this.selected.length > 0) params.$select = this.selected.join(',');
+    if (this.ordering.length > 0) params.$orderby = this.ordering.join(',');
+    if (this.expanded.length > 0) params.$expand = this.expanded.join(',');
+    if (this.searchTerm !== undefined) params.$search = quoteSearch(this.searchTerm);
+    if (this.topCount !== undefined) params.$top = this.topCount;
+    if (this.includeCount) params.$count = true;
+    return params;
+  }
+
+  toString(): string {
+    return Object.entries(this.toParams())
+      .map(([name, value]) => `${name}=${encodeURIComponent(String(value))}`)
+      .join('&');
+  }
+}
+
+/**
+ * Quote a `$search` term
+ */
+function quoteSearch(term: string): string {
+  return `"${term.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Query parameters from a query builder or a plain object (undefined values dropped)
+ */
+export function toQueryParams(query?: QueryInput): QueryParams {
+  const params = query instanceof ODataQuery ? query.toParams() : query || {};
+  return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Merge queries left to right: later values win, except `$filter`s, which are combined with `and`
+ *
+ * @example
+ * mergeQueries({ $filter: "status eq 'Active'", $top: 10 }, callerQuery);
+ */
+export function mergeQueries(...queries: Array<QueryInput | undefined>): QueryParams {
+  const merged: QueryParams = {};
+  const filters: Filter[] = [];
+
+  for (const query of queries) {
+    const { $filter, ...params } = toQueryParams(query);
+    if ($filter !== undefined && $filter !== '') {
+      filters.push(new Filter(String($filter)));
+    }
+    Object.assign(merged, params);
+  }
+
+  if (filters.length > 0) {
+    merged.$filter = and(...filters).toString();
+  }
+  return merged;
+}
@@ -0,0 +1,120 @@
+import { CancellationOptions, createCancellation, throwIfAborted } from './cancellation';
+
+/**
+ * One page of a Graph collection
+ */
+export interface Page<T> {
+  value: T[];
+  nextLink?: string; // '@odata.nextLink' of the response, absent on the last page
+}
+
+/**
+ * Fetch a page: the first one when nextLink is undefined, otherwise the page it points to
+ * `signal` aborts when the iteration is cancelled or times out
+ */
+export type PageFetcher<T> = (nextLink?: string, signal?: AbortSignal) => Promise<Page<T>>;
+
+/**
+ * Lazily walks a Graph collection, following `@odata.nextLink` until the last page
+ * Iterate with `for await`, or collect items into an array. The iterator is also a
+ * `Promise<T[]>` of every item, so list methods can be awaited, chained with `.then`/`.catch`/
+ * `.finally` or passed to `Promise.all` like before.
+ * Nothing is fetched until the iterator is consumed. Every iteration or `collect()` starts over;
+ * the promise collects once and settles with the same result however often it is awaited.
+ * A `timeoutMs` starts when consumption does and covers every page; once it elapses or `signal`
+ * aborts, the iteration rejects with a RequestAbortedError instead of fetching further pages.
+ *
+ * @example
+ * for await (const item of sharepoint.getListItems('Tasks', {}, undefined, { pageSize: 100 })) {
+ *   console.log(item.id);
+ * }
+ *
+ * const first50 = await teams.getTeams().collect({ maxItems: 50 });
+ * const all = await teams.getTeams();
+ */
+export class PageIterator<T> implements AsyncIterable<T>, Promise<T[]> {
+  readonly [Symbol.toStringTag] = 'PageIterator';
+  private result?: Promise<T[]>;
+
+  /**
+   * @param fetchPage - Fetches one page
+   * @param maxItems - Stop after this many items (default: no limit)
+   * @param cancellation - `signal` / `timeoutMs` for the whole iteration
+   */
+  constructor(
+    private fetchPage: PageFetcher<T>,
+    private maxItems?: number,
+    private cancellation: CancellationOptions = {}
+  ) {}
+
+  /**
+   * Iterate page by page; the request for the next page is only sent when it is needed
+   */
+  async *pages(): AsyncGenerator<T[], void, undefined> {
+    let remaining = this.maxItems ?? Infinity;
+    let nextLink: string | undefined;
+    if (remaining <= 0) {
+      return;
+    }
+
+    const { signal, dispose } = createCancellation(this.cancellation);
+    try {
+      do {
+        throwIfAborted(signal);
+        const page = await this.fetchPage(nextLink, signal);
+        const items = page.value.slice(0, remaining);
+        remaining -= items.length;
+        yield items;
+        nextLink = page.nextLink;
+      } while (nextLink && remaining > 0);
+    } finally {
+      dispose();
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page;
+    }
+  }
+
+  /**
+   * Fetch pages until the collection (or maxItems) is exhausted
+   *
+   * @param options - `maxItems` stops fetching once that many items were collected
+   * @returns Items from every page fetched
+   */
+  async collect(options: { maxItems?: number } = {}): Promise<T[]> {
+    const maxItems = options.maxItems ?? Infinity;
+    const items: T[] = [];
+    if (maxItems <= 0) {
+      return items;
+    }
+
+    for await (const item of this) {
+      items.push(item);
+      if (items.length >= maxItems) {
+        break;
+      }
+    }
+    return items;
+  }
+
+  then<TResult1 = T[], TResult2 = never>(
+    onfulfilled?: ((value: T[]) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    this.result ??= this.collect();
+    return this.result.then(onfulfilled, onrejected);
+  }
+
+  catch<TResult = never>(
+    onrejected?: ((reason: unknown) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T[] | TResult> {
+    return this.then(undefined, onrejected);
+  }
+
+  finally(onfinally?: (() => void) | null): Promise<T[]> {
+    return this.then().finally(onfinally);
+  }
+}
@@ -0,0 +1,122 @@
+import { Logger, RetryOptions } from '../types';
+import { delay } from './cancellation';
+import { getGraphErrorDetails } from './errors';
+import { interceptHttpMethods } from './http';
+
+/**
+ * Retry policy with every field resolved
+ */
+export type RetryPolicy = Required<Omit<RetryOptions, 'onThrottled'>> &
+  Pick<RetryOptions, 'onThrottled'>;
+
+/**
+ * Default retry policy
+ * POST and PATCH are not retried: Graph may have applied the change before throttling
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  statuses: [429, 503, 504],
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+};
+
+/**
+ * Merge retry options, later ones taking precedence
+ * `false` disables retries; options after it start again from the defaults
+ *
+ * @returns The resolved policy, or undefined when retries are disabled
+ */
+export function resolveRetryPolicy(
+  ...layers: Array<RetryOptions | false | undefined>
+): RetryPolicy | undefined {
+  let policy: RetryPolicy | undefined = DEFAULT_RETRY_POLICY;
+
+  for (const layer of layers) {
+    if (layer === false) {
+      policy = undefined;
+    } else if (layer) {
+      const overrides = Object.fromEntries(
+        Object.entries(layer).filter(([, value]) => value !== undefined)
+      );
+      policy = { ...(policy || DEFAULT_RETRY_POLICY), ...overrides };
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Delay before the next attempt
+ * Honors Retry-After when the server sent one; otherwise exponential backoff with jitter
+ * (a random delay between half and all of baseDelayMs * 2^(attempt - 1), capped at maxDelayMs)
+ *
+ * @param attempt - The attempt that just failed (1 for the first request)
+ * @param retryAfter - Seconds from the Retry-After header
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, retryAfter?: number): number {
+  if (retryAfter !== undefined) {
+    return retryAfter * 1000;
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+}
+
+/**
+ * Wrap an HTTP client so throttled and unavailable responses are retried per the policy
+ * Returns the client unchanged when retries are disabled
+ *
+ * @param signal - Aborting it cuts the backoff short
+ */
+export function withThrottlingRetry<T extends object>(
+  client: T,
+  policy: RetryPolicy | undefined,
+  logger: Logger,
+  signal?: AbortSignal
+): T {
+  if (!policy || policy.maxAttempts <= 1) {
+    return client;
+  }
+
+  return interceptHttpMethods(client, async (method, url, _args, send) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await send();
+      } catch (error) {
+        const { status, retryAfter } = getGraphErrorDetails(error);
+        if (!status || !policy.statuses.includes(status)) {
+          throw error;
+        }
+
+        const willRetry = attempt < policy.maxAttempts && policy.methods.includes(method);
+        const delayMs = willRetry ? getRetryDelay(policy, attempt, retryAfter) : undefined;
+
+        try {
+          policy.onThrottled?.({
+            method,
+            url,
+            status,
+            attempt,
+            maxAttempts: policy.maxAttempts,
+            retryAfter,
+            delayMs,
+            willRetry,
+          });
+        } catch (hookError) {
+          logger.error('onThrottled hook failed:', hookError);
+        }
+
+        if (!willRetry) {
+          throw error;
+        }
+
+        logger.warn(
+          `HTTP ${method} ${url} returned ${status}, retrying in ${delayMs}ms ` +
+            `(attempt ${attempt + 1}/${policy.maxAttempts})`
+        );
+        await delay(delayMs, signal);
+      }
+    }
+  });
+}
@@ -0,0 +1,235 @@
+import { URL } from 'url';
+import { RateLimitConfig, RateLimitOptions } from '../types';
+import { abortable, throwIfAborted, toAbortError } from './cancellation';
+import { getGraphErrorDetails } from './errors';
+import { interceptHttpMethods } from './http';
+
+/**
+ * Default limits, well below Graph's per-app throttling thresholds
+ */
+export const DEFAULT_RATE_LIMIT: Required<RateLimitOptions> = {
+  requestsPerSecond: 10,
+  burst: 10,
+  maxConcurrent: 5,
+};
+
+/**
+ * Queues requests so at most `maxConcurrent` are in flight and they start no faster than
+ * `requestsPerSecond` (token bucket holding up to `burst` tokens)
+ * Requests start in the order they were scheduled
+ */
+export class RequestScheduler {
+  private options: Required<RateLimitOptions> = DEFAULT_RATE_LIMIT;
+  private tokens: number = 0;
+  private lastRefill: number = Date.now();
+  private active: number = 0;
+  private queue: Array<() => void> = [];
+  private pausedUntil: number = 0;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.configure(options);
+    this.tokens = this.options.burst;
+  }
+
+  /**
+   * Change the limits; queued requests pick up the new values
+   */
+  configure(options: RateLimitOptions): void {
+    const requestsPerSecond = options.requestsPerSecond ?? DEFAULT_RATE_LIMIT.requestsPerSecond;
+    this.options = {
+      requestsPerSecond,
+      burst: Math.max(1, options.burst ?? (requestsPerSecond || DEFAULT_RATE_LIMIT.burst)),
+      maxConcurrent: Math.max(1, options.maxConcurrent ?? DEFAULT_RATE_LIMIT.maxConcurrent),
+    };
+    this.tokens = Math.min(this.tokens, this.options.burst);
+    this.drain();
+  }
+
+  /**
+   * Run a request once a slot and a rate-limit token are available
+   *
+   * @param signal - Aborting it while the request is still queued takes it out of the queue;
+   *   once it is running, the request rejects right away but keeps its slot until the HTTP call
+   *   settles, so abandoned calls still count towards `maxConcurrent` (their response is ignored)
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await new Promise<void>((resolve, reject) => {
+      throwIfAborted(signal);
+
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        const index = this.queue.indexOf(start);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(toAbortError(signal!.reason));
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(start);
+      this.drain();
+    });
+
+    const release = () => {
+      this.active--;
+      this.drain();
+    };
+    const running = task();
+    running.then(release, release);
+    return abortable(running, signal);
+  }
+
+  /**
+   * Hold all queued requests for a while (e.g. after Graph returned Retry-After)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Requests currently in flight and waiting
+   */
+  getStats(): { active: number; queued: number } {
+    return { active: this.active, queued: this.queue.length };
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.active < this.options.maxConcurrent) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.wakeAfter(this.pausedUntil - now);
+        return;
+      }
+
+      if (this.options.requestsPerSecond > 0) {
+        if (this.tokens < 1) {
+          this.wakeAfter(Math.ceil(((1 - this.tokens) * 1000) / this.options.requestsPerSecond));
+          return;
+        }
+        this.tokens--;
+      }
+
+      this.active++;
+      this.queue.shift()!();
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const { requestsPerSecond, burst } = this.options;
+    const refilled = ((now - this.lastRefill) / 1000) * requestsPerSecond;
+    this.tokens = Math.min(burst, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+
+  private wakeAfter(ms: number): void {
+    if (this.wakeTimer) {
+      return;
+    }
+
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.drain();
+    }, ms);
+  }
+}
+
+/**
+ * Schedulers shared by every AzureAuth instance, keyed by tenant and host
+ */
+const schedulers = new Map<string, RequestScheduler>();
+
+/**
+ * Get the shared scheduler for a tenant and host (resource)
+ *
+ * @param tenantId - Tenant the requests are made for
+ * @param host - Host of the request URL, e.g. 'graph.microsoft.com'
+ * @param config - Rate limit config; when given, the shared scheduler is updated to match it
+ * @returns The scheduler, or undefined when rate limiting is disabled for this host
+ */
+export function getRequestScheduler(
+  tenantId: string,
+  host: string,
+  config?: RateLimitConfig | false
+): RequestScheduler | undefined {
+  if (config === false || config?.resources?.[host] === false) {
+    return undefined;
+  }
+
+  const key = `${tenantId || 'default'}|${host}`;
+  let scheduler = schedulers.get(key);
+
+  if (!scheduler || config) {
+    const { resources, ...tenantOptions } = config || {};
+    const options = { ...tenantOptions, ...(resources?.[host] || {}) };
+    if (scheduler) {
+      scheduler.configure(options);
+    } else {
+      scheduler = new RequestScheduler(options);
+      schedulers.set(key, scheduler);
+    }
+  }
+
+  return scheduler;
+}
+
+/**
+ * Forget all shared schedulers (requests already queued still complete)
+ */
+export function resetRequestSchedulers(): void {
+  schedulers.clear();
+}
+
+/**
+ * Wrap an HTTP client so every request goes through the shared scheduler for its host
+ * A Retry-After on a 429/503 pauses the whole queue, so other requests back off as well
+ *
+ * @param signal - Aborting it drops requests still waiting in the queue and stops waiting for
+ *   those in flight
+ */
+export function withRequestScheduling<T extends object>(
+  client: T,
+  tenantId: string,
+  config?: RateLimitConfig | false,
+  signal?: AbortSignal
+): T {
+  if (config === false) {
+    return client;
+  }
+
+  return interceptHttpMethods(client, async (_method, url, _args, send) => {
+    const scheduler = getRequestScheduler(tenantId, getHost(url), config);
+    if (!scheduler) {
+      return send();
+    }
+
+    return scheduler.schedule(async () => {
+      try {
+        return await send();
+      } catch (error) {
+        const { status, retryAfter } = getGraphErrorDetails(error);
+        if ((status === 429 || status === 503) && retryAfter) {
+          scheduler.pause(retryAfter * 1000);
+        }
+        throw error;
+      }
+    }, signal);
+  });
+}
+
+/**
+ * Host of a request URL ('' if it cannot be parsed)
+ */
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
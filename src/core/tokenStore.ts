@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { Logger, StoredCredentials, TokenStore } from '../types';
+import {
+  decryptCredentials,
+  encryptCredentials,
+  isEncryptedPayload,
+  TokenDecryptionError,
+} from './encryption';
+import { ConsoleLogger } from './logger';
+
+/**
+ * Storage key used when tenant/client are unknown (legacy `tokens.json`)
+ */
+export const DEFAULT_STORAGE_KEY = 'default';
+
+/**
+ * Environment variable holding the token file encryption key
+ */
+export const TOKEN_ENCRYPTION_KEY_ENV = 'MS_GRAPH_TOKEN_ENCRYPTION_KEY';
+
+const DEFAULT_LOCK_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_LOCK_STALE_MS = 30 * 1000;
+const LOCK_RETRY_INTERVAL_MS = 50;
+
+/**
+ * Options for FileTokenStore
+ */
+export interface FileTokenStoreOptions {
+  encryptionKey?: string; // Defaults to MS_GRAPH_TOKEN_ENCRYPTION_KEY env variable
+  lockTimeoutMs?: number; // How long to wait for another process to release the lock (default 60s)
+  lockStaleMs?: number; // Time without a heartbeat after which a lock file is taken over (default 30s)
+  logger?: Logger; // Default: ConsoleLogger
+}
+
+/**
+ * Build the storage key for a tenant/client pair
+ */
+export function getStorageKey(tenantId?: string, clientId?: string): string {
+  return tenantId && clientId ? `${tenantId}.${clientId}` : DEFAULT_STORAGE_KEY;
+}
+
+/**
+ * Token store backed by JSON files in a local directory (default store)
+ * Files are named `tokens.{tenantId}.{clientId}.json` and created with owner-only permissions
+ *
+ * When an encryption key is set (option or MS_GRAPH_TOKEN_ENCRYPTION_KEY), files are encrypted
+ * with AES-256-GCM and existing plaintext files are re-written encrypted on first read
+ *
+ * Files are written to a temporary file and renamed into place, so readers that don't take the
+ * lock never see a half-written file.
+ *
+ * lock() creates a `.lock` file next to the token file so that several processes sharing
+ * the same file refresh one at a time. The holder touches the file while it holds the lock, so
+ * locks left behind by crashed processes are detected by a missed heartbeat or by a dead owner
+ * PID and taken over.
+ */
+export class FileTokenStore implements TokenStore {
+  private directory: string;
+  private encryptionKey?: string;
+  private lockTimeoutMs: number;
+  private lockStaleMs: number;
+  private logger: Logger;
+
+  /**
+   * @param directory - Optional storage directory (defaults to the platform config directory)
+   * @param options - Optional encryption key, lock timings and logger
+   */
+  constructor(directory?: string, options?: FileTokenStoreOptions) {
+    this.directory = directory || FileTokenStore.getDefaultDirectory();
+    this.encryptionKey = options?.encryptionKey || process.env[TOKEN_ENCRYPTION_KEY_ENV] || undefined;
+    this.lockTimeoutMs = options?.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    this.lockStaleMs = options?.lockStaleMs ?? DEFAULT_LOCK_STALE_MS;
+    this.logger = options?.logger || new ConsoleLogger();
+  }
+
+  /**
+   * Get the default storage directory based on platform
+   */
+  static getDefaultDirectory(): string {
+    const homeDir = os.homedir();
+
+    if (process.platform === 'win32') {
+      const localAppData = process.env.LOCALAPPDATA || path.join(homeDir, 'AppData', 'Local');
+      return path.join(localAppData, 'ms-graph-devtools');
+    } else {
+      const configHome = process.env.XDG_CONFIG_HOME || path.join(homeDir, '.config');
+      return path.join(configHome, 'ms-graph-devtools');
+    }
+  }
+
+  /**
+   * Get the file path for a storage key
+   */
+  getFilePath(key: string): string {
+    const filename = key === DEFAULT_STORAGE_KEY ? 'tokens.json' : `tokens.${key}.json`;
+    return path.join(this.directory, filename);
+  }
+
+  async get(key: string): Promise<StoredCredentials | null> {
+    let content: unknown;
+    try {
+      const data = await fs.readFile(this.getFilePath(key), 'utf-8');
+      content = JSON.parse(data);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    if (isEncryptedPayload(content)) {
+      if (!this.encryptionKey) {
+        throw new TokenDecryptionError(
+          'Stored credentials are encrypted but no encryption key was provided.\n' +
+            `Set tokenEncryptionKey in config or the ${TOKEN_ENCRYPTION_KEY_ENV} environment variable.`
+        );
+      }
+      return decryptCredentials(content, this.encryptionKey);
+    }
+
+    // Migrate plaintext files written before encryption was enabled
+    const credentials = content as StoredCredentials;
+    if (this.encryptionKey) {
+      await this.set(key, credentials);
+    }
+    return credentials;
+  }
+
+  async set(key: string, credentials: StoredCredentials): Promise<void> {
+    const content = this.encryptionKey
+      ? await encryptCredentials(credentials, this.encryptionKey)
+      : credentials;
+
+    const filePath = this.getFilePath(key);
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(content, null, 2), { mode: 0o600 });
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.getFilePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async lock(key: string): Promise<() => Promise<void>> {
+    const lockPath = `${this.getFilePath(key)}.lock`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx', 0o600);
+        try {
+          await handle.writeFile(JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+        } finally {
+          await handle.close();
+        }
+
+        // Keep the mtime fresh so a slow refresh isn't mistaken for an abandoned lock
+        const heartbeat = setInterval(() => {
+          const now = new Date();
+          fs.utimes(lockPath, now, now).catch(() => undefined);
+        }, Math.max(this.lockStaleMs / 3, LOCK_RETRY_INTERVAL_MS));
+        heartbeat.unref?.();
+
+        return async () => {
+          clearInterval(heartbeat);
+          await fs.unlink(lockPath).catch(() => undefined);
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.isStaleLock(lockPath)) {
+        this.logger.warn(`Removing stale token lock: ${lockPath}`);
+        await fs.unlink(lockPath).catch(() => undefined);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timed out waiting for token lock: ${lockPath}\n` +
+            'Another process is refreshing the same credentials. ' +
+            'If no other process is running, delete the lock file.'
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * A lock is stale when its heartbeat is older than lockStaleMs or its owner process no longer
+   * exists
+   */
+  private async isStaleLock(lockPath: string): Promise<boolean> {
+    let content: string;
+    let modifiedAt: number;
+    try {
+      const stat = await fs.stat(lockPath);
+      modifiedAt = stat.mtimeMs;
+      content = await fs.readFile(lockPath, 'utf-8');
+    } catch (error) {
+      // Released between our attempts - not stale, just retry
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+
+    if (Date.now() - modifiedAt > this.lockStaleMs) {
+      return true;
+    }
+
+    try {
+      const { pid } = JSON.parse(content) as { pid?: number };
+      if (typeof pid === 'number' && pid !== process.pid) {
+        process.kill(pid, 0);
+      }
+    } catch (error) {
+      // ESRCH: owner is gone. Anything else (EPERM, partially written file) counts as alive
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+
+    return false;
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter((f) => f.startsWith('tokens') && f.endsWith('.json'))
+        .map((file) =>
+          file === 'tokens.json' ? DEFAULT_STORAGE_KEY : file.slice('tokens.'.length, -'.json'.length)
+        );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Token store kept in process memory
+ * Useful for serverless functions, containers with ephemeral disks, and tests
+ */
+export class MemoryTokenStore implements TokenStore {
+  private entries = new Map<string, StoredCredentials>();
+
+  async get(key: string): Promise<StoredCredentials | null> {
+    const credentials = this.entries.get(key);
+    return credentials ? { ...credentials } : null;
+  }
+
+  async set(key: string, credentials: StoredCredentials): Promise<void> {
+    this.entries.set(key, { ...credentials });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+}
@@ -3,7 +3,9 @@ import { Outlook } from "./services/Outlook";
 import { Calendar } from "./services/Calendar";
 import { Teams } from "./services/Teams";
 import { SharePoint } from "./services/SharePoint";
-import { AzureConfig } from "./types";
+import { GraphBatch } from "./core/batch";
+import { GraphClient } from "./core/client";
+import { AzureConfig, RequestOptions, TokenStore } from "./types";
 
 /**
  * Main Azure utility class
@@ -39,6 +41,7 @@ class Azure {
   private static _calendar?: Calendar;
   private static _teams?: Teams;
   private static _sharePoint?: SharePoint;
+  private static _graph?: GraphClient;
 
   /**
    * Set global configuration for all service instances
@@ -61,6 +64,7 @@ class Azure {
     this._calendar = undefined;
     this._teams = undefined;
     this._sharePoint = undefined;
+    this._graph = undefined;
   }
 
   /**
@@ -73,6 +77,7 @@ class Azure {
     this._calendar = undefined;
     this._teams = undefined;
     this._sharePoint = undefined;
+    this._graph = undefined;
   }
 
   /**
@@ -131,13 +136,42 @@ class Azure {
     return this._sharePoint;
   }
 
+  /**
+   * Get a GraphClient for endpoints the services don't wrap (lazy-loaded singleton)
+   * Uses global config set via Azure.config()
+   *
+   * @example
+   * const groups = await Azure.graph.get("/me/memberOf", { query: { $select: "displayName" } });
+   */
+  static get graph(): GraphClient {
+    if (!this._graph) {
+      this._graph = new GraphClient();
+    }
+    return this._graph;
+  }
+
+  /**
+   * Start a JSON batch using the global config
+   *
+   * @param options - Options for the `/$batch` calls (e.g. a retry override)
+   *
+   * @example
+   * const batch = Azure.batch();
+   * itemIds.forEach((id) => Azure.sharePoint.deleteListItem("Tasks", id, undefined, { batch }));
+   * await batch.execute();
+   */
+  static batch(options?: RequestOptions): GraphBatch {
+    return new AzureAuth().batch(options);
+  }
+
   /**
    * List all stored credentials
    *
+   * @param store - Optional token store (defaults to the configured store)
    * @returns Array of stored credential metadata
    */
-  static async listStoredCredentials() {
-    return AzureAuth.listStoredCredentials();
+  static async listStoredCredentials(store?: TokenStore) {
+    return AzureAuth.listStoredCredentials(store);
   }
 
   /**
@@ -145,9 +179,10 @@ class Azure {
    *
    * @param tenantId - Optional tenant ID to clear specific credentials
    * @param clientId - Optional client ID to clear specific credentials
+   * @param store - Optional token store (defaults to the configured store)
    */
-  static async clearStoredCredentials(tenantId?: string, clientId?: string) {
-    return AzureAuth.clearStoredCredentials(tenantId, clientId);
+  static async clearStoredCredentials(tenantId?: string, clientId?: string, store?: TokenStore) {
+    return AzureAuth.clearStoredCredentials(tenantId, clientId, store);
   }
 }
 
@@ -164,5 +199,91 @@ export { AdaptiveCardBuilder } from "./services/Teams";
 // Export auth class for advanced use
 export { AzureAuth };
 
+// Export token stores
+export { FileTokenStore, MemoryTokenStore } from "./core/tokenStore";
+export type { FileTokenStoreOptions } from "./core/tokenStore";
+export { TokenDecryptionError } from "./core/encryption";
+
+// Export loggers
+export { ConsoleLogger, SilentLogger } from "./core/logger";
+
+// Export error classes
+export {
+  GraphError,
+  GraphBadRequestError,
+  GraphAuthError,
+  GraphForbiddenError,
+  GraphNotFoundError,
+  GraphConflictError,
+  GraphThrottledError,
+  GraphServerError,
+} from "./core/errors";
+export type { GraphErrorDetails } from "./core/errors";
+
+// Export cancellation errors
+export { RequestAbortedError, RequestTimeoutError } from "./core/cancellation";
+
+// Export JSON batching
+export { GraphBatch } from "./core/batch";
+
+// Export low-level Graph client
+export { GraphClient } from "./core/client";
+export type { HttpMethod } from "./core/client";
+
+// Export paging
+export { PageIterator } from "./core/paging";
+export type { Page, PageFetcher } from "./core/paging";
+
+// Export OData query builder
+export { ODataQuery, Filter, filter, formatLiteral, mergeQueries } from "./core/odata";
+export type { ODataValue, ODataPath } from "./core/odata";
+
 // Export types
-export type { AzureConfig } from "./types";
+export type {
+  AzureConfig,
+  AuthHooks,
+  AuthErrorInfo,
+  BatchRequest,
+  BatchResponse,
+  ClientCertificate,
+  DeleteMessagesOptions,
+  DeviceCodeInfo,
+  DeviceCodeOptions,
+  FolderTreeOptions,
+  FollowUpFlag,
+  GetMessageOptions,
+  GraphRequestOptions,
+  GraphResponse,
+  InteractiveLoginOptions,
+  ItemBody,
+  ListFoldersOptions,
+  ListMessagesOptions,
+  ListOptions,
+  Logger,
+  LogLevel,
+  MailFolder,
+  MailFolderNode,
+  MailFolderRef,
+  MailPayload,
+  MailResponseAction,
+  Message,
+  MessageAttachment,
+  MessageReadOptions,
+  ProviderInvokedInfo,
+  QueryInput,
+  QueryParams,
+  RateLimitConfig,
+  RateLimitOptions,
+  ReplyPayload,
+  RequestOptions,
+  RetryOptions,
+  ThrottledInfo,
+  TokenEventInfo,
+  TokenPersistedInfo,
+  TokenRefreshedInfo,
+  TokenRefreshFailedInfo,
+  TokenStore,
+  StoredCredentials,
+  StoredCredentialsInfo,
+  WellKnownFolderName,
+} from "./types";
@@ -1,5 +1,14 @@
 import { AzureAuth } from "../core/auth";
-import { AzureConfig, Calendar as CalendarType, Holiday } from "../types";
+import { withCancellation } from "../core/cancellation";
+import { GraphClient } from "../core/client";
+import { PageIterator } from "../core/paging";
+import {
+  AzureConfig,
+  Calendar as CalendarType,
+  Holiday,
+  ListOptions,
+  RequestOptions,
+} from "../types";
 
 /**
  * Calendar service for Microsoft Graph API
@@ -7,41 +16,64 @@ import { AzureConfig, Calendar as CalendarType, Holiday } from "../types";
  */
 export class Calendar {
   private auth: AzureAuth;
+  private graph: GraphClient;
+  private userId?: string;
 
   /**
    * Create a new Calendar service instance
    *
    * @param config - Optional config or AzureAuth instance
+   * @param userId - Optional user ID or UPN to act on instead of `/me` (required in app-only mode)
    *
    * @example
    * const calendar = new Calendar();
    * const calendars = await calendar.getCalendars();
    */
-  constructor(config?: AzureConfig | AzureAuth) {
+  constructor(config?: AzureConfig | AzureAuth, userId?: string) {
     if (config instanceof AzureAuth) {
       this.auth = config;
     } else {
       this.auth = new AzureAuth(config);
     }
+    this.graph = new GraphClient(this.auth);
+
+    if (userId) {
+      this.userId = userId;
+    }
+  }
+
+  /**
+   * Set the target user ID or UPN for this instance
+   * Required in app-only mode, where `/me` is not available
+   *
+   * @param userId - User ID or UPN (e.g., 'user@contoso.com')
+   */
+  setUserId(userId: string): void {
+    this.userId = userId;
+  }
+
+  /**
+   * Get the target user ID
+   *
+   * @returns Current user ID or undefined (uses the configured user or `/me`)
+   */
+  getUserId(): string | undefined {
+    return this.userId;
   }
 
   /**
    * Get all calendars for the current user
    *
-   * @returns Array of calendars
+   * @param options - Paging, query and per-call options (`pageSize`, `maxItems`, `query`, `retry`)
+   * @returns Calendars; await for an array or iterate with `for await`
    *
    * @example
    * const calendars = await calendar.getCalendars();
    * console.log(calendars.map(c => c.name));
    */
-  async getCalendars(): Promise<CalendarType[]> {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/me/calendars`;
-      const res = await this.auth.getAxon().bearer(token).get(url);
-      return res.data.value as CalendarType[];
-    });
+  getCalendars(options: ListOptions = {}): PageIterator<CalendarType> {
+    const path = () => `${this.auth.getUserPath(this.userId)}/calendars`;
+    return this.graph.paginate<CalendarType>(path, options);
   }
 
   /**
@@ -50,6 +82,7 @@ export class Calendar {
    * @param calendarName - Calendar name to search for (e.g., 'India holidays', 'US Holidays')
    * @param start - Start date (ISO format)
    * @param end - End date (ISO format)
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns Array of holidays
    *
    * @example
@@ -62,37 +95,18 @@ export class Calendar {
   async getHolidaysByCalendarName(
     calendarName: string,
     start: string,
-    end: string
+    end: string,
+    requestOptions: RequestOptions = {}
   ): Promise<Holiday[]> {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const calendars = await this.getCalendars();
-      const targetCalendar = calendars.find(
-        (calendar) => calendar.name === calendarName
-      );
+    return withCancellation(requestOptions, async (options) => {
+      const calendars = await this.getCalendars(options);
+      const targetCalendar = calendars.find((calendar) => calendar.name === calendarName);
 
       if (!targetCalendar) {
         throw new Error(`Calendar "${calendarName}" not found`);
       }
 
-      const params = {
-        startDateTime: start,
-        endDateTime: end,
-      };
-
-      const url = `https://graph.microsoft.com/v1.0/me/calendars/${targetCalendar.id}/calendarView`;
-      const res = await this.auth.getAxon()
-        .bearer(token)
-        .params(params)
-        .get(url);
-
-      type HolidayEvent = { subject: string; start: { dateTime: string } };
-
-      return res.data.value.map((holiday: HolidayEvent) => ({
-        name: holiday.subject,
-        date: holiday.start.dateTime,
-      }));
+      return this.getHolidays(targetCalendar, start, end, options);
     });
   }
 
@@ -102,6 +116,7 @@ export class Calendar {
    * @param start - Start date (ISO format)
    * @param end - End date (ISO format)
    * @param calendarName - Optional calendar name (defaults to 'India holidays')
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns Array of holidays
    *
    * @example
@@ -121,9 +136,10 @@ export class Calendar {
   async getIndiaHolidays(
     start: string,
     end: string,
-    calendarName: string = "India holidays"
+    calendarName: string = "India holidays",
+    requestOptions: RequestOptions = {}
   ): Promise<Holiday[]> {
-    return this.getHolidaysByCalendarName(calendarName, start, end);
+    return this.getHolidaysByCalendarName(calendarName, start, end, requestOptions);
   }
 
   /**
@@ -132,6 +148,7 @@ export class Calendar {
    * @param start - Start date (ISO format)
    * @param end - End date (ISO format)
    * @param calendarNames - Optional calendar names to search for (defaults to common Japanese holiday calendar names)
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns Array of holiday events
    *
    * @example
@@ -151,15 +168,12 @@ export class Calendar {
   async getJapanHolidays(
     start: string,
     end: string,
-    calendarNames: string[] = ["Japan holidays", "日本 の休日"]
+    calendarNames: string[] = ["Japan holidays", "日本 の休日"],
+    requestOptions: RequestOptions = {}
   ): Promise<Holiday[]> {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const calendars = await this.getCalendars();
-      const japanCalendar = calendars.find((calendar) =>
-        calendarNames.includes(calendar.name)
-      );
+    return withCancellation(requestOptions, async (options) => {
+      const calendars = await this.getCalendars(options);
+      const japanCalendar = calendars.find((calendar) => calendarNames.includes(calendar.name));
 
       if (!japanCalendar) {
         throw new Error(
@@ -167,23 +181,36 @@ export class Calendar {
         );
       }
 
-      const params = {
-        startDateTime: start,
-        endDateTime: end,
-      };
-
-      const url = `https://graph.microsoft.com/v1.0/me/calendars/${japanCalendar.id}/calendarView`;
-      const res = await this.auth.getAxon()
-        .bearer(token)
-        .params(params)
-        .get(url);
-
-      type HolidayEvent = { subject: string; start: { dateTime: string } };
+      return this.getHolidays(japanCalendar, start, end, options);
+    });
+  }
 
-      return res.data.value.map((holiday: HolidayEvent) => ({
-        name: holiday.subject,
-        date: holiday.start.dateTime,
-      }));
+  /**
+   * Get every event in a calendar's view of a date range, as holidays
+   */
+  private async getHolidays(
+    calendar: CalendarType,
+    start: string,
+    end: string,
+    requestOptions: RequestOptions
+  ): Promise<Holiday[]> {
+    const query = {
+      startDateTime: start,
+      endDateTime: end,
+    };
+
+    const path = `${this.auth.getUserPath(this.userId)}/calendars/${calendar.id}/calendarView`;
+
+    type HolidayEvent = { subject: string; start: { dateTime: string } };
+
+    return this.graph.paginate(path, {
+      ...requestOptions,
+      query,
+      transform: (holidays: HolidayEvent[]) =>
+        holidays.map((holiday) => ({
+          name: holiday.subject,
+          date: holiday.start.dateTime,
+        })),
     });
   }
 }
@@ -3,7 +3,81 @@ import { JSDOM } from "jsdom";
 import * as fs from "fs";
 import * as path from "path";
 import { AzureAuth } from "../core/auth";
-import { AzureConfig, Mail, MailPayload } from "../types";
+import { withCancellation } from "../core/cancellation";
+import { GraphClient } from "../core/client";
+import { formatLiteral, mergeQueries, ODataQuery } from "../core/odata";
+import { PageIterator } from "../core/paging";
+import { ConsoleLogger } from "../core/logger";
+import {
+  Attachment,
+  AzureConfig,
+  DeleteMessagesOptions,
+  FolderTreeOptions,
+  FollowUpFlag,
+  GetMessageOptions,
+  ListFoldersOptions,
+  ListMessagesOptions,
+  ListOptions,
+  Logger,
+  Mail,
+  MailFolder,
+  MailFolderNode,
+  MailFolderRef,
+  MailPayload,
+  MailResponseAction,
+  Message,
+  MessageAttachment,
+  MessageReadOptions,
+  Recipient,
+  ReplyPayload,
+  RequestOptions,
+  WellKnownFolderName,
+} from "../types";
+
+/**
+ * Well-known folder names, looked up by getFolderTree() and accepted as the first segment of a
+ * folder path
+ */
+const WELL_KNOWN_FOLDER_NAMES: WellKnownFolderName[] = [
+  "inbox",
+  "drafts",
+  "sentitems",
+  "deleteditems",
+  "archive",
+  "junkemail",
+  "outbox",
+  "msgfolderroot",
+  "clutter",
+  "conversationhistory",
+  "recoverableitemsdeletions",
+  "scheduled",
+  "searchfolders",
+];
+
+/**
+ * Properties listMessages() selects by default (the body is left out to keep pages small)
+ */
+const DEFAULT_MESSAGE_FIELDS: Array<keyof Message> = [
+  "id",
+  "subject",
+  "bodyPreview",
+  "from",
+  "sender",
+  "toRecipients",
+  "ccRecipients",
+  "receivedDateTime",
+  "sentDateTime",
+  "hasAttachments",
+  "importance",
+  "isRead",
+  "isDraft",
+  "conversationId",
+  "internetMessageId",
+  "parentFolderId",
+  "categories",
+  "flag",
+  "webLink",
+];
 
 /**
  * Outlook/Mail service for Microsoft Graph API
@@ -11,11 +85,14 @@ import { AzureConfig, Mail, MailPayload } from "../types";
  */
 export class Outlook {
   private auth: AzureAuth;
+  private graph: GraphClient;
+  private userId?: string;
 
   /**
    * Create a new Outlook service instance
    *
    * @param config - Optional config or AzureAuth instance
+   * @param userId - Optional user ID or UPN to act on instead of `/me` (required in app-only mode)
    *
    * @example
    * // Auto-load from env/storage
@@ -34,38 +111,62 @@ export class Outlook {
    * // Shared auth instance
    * const auth = new AzureAuth({ refreshToken: '...' });
    * const outlook = new Outlook(auth);
+   *
+   * @example
+   * // App-only mode acting on a specific mailbox
+   * const outlook = new Outlook({ appOnly: true, ... }, 'reports@contoso.com');
    */
-  constructor(config?: AzureConfig | AzureAuth) {
+  constructor(config?: AzureConfig | AzureAuth, userId?: string) {
     if (config instanceof AzureAuth) {
       this.auth = config;
     } else {
       this.auth = new AzureAuth(config);
     }
+    this.graph = new GraphClient(this.auth);
+
+    if (userId) {
+      this.userId = userId;
+    }
+  }
+
+  /**
+   * Set the target user ID or UPN for this instance
+   * Required in app-only mode, where `/me` is not available
+   *
+   * @param userId - User ID or UPN (e.g., 'user@contoso.com')
+   */
+  setUserId(userId: string): void {
+    this.userId = userId;
+  }
+
+  /**
+   * Get the target user ID
+   *
+   * @returns Current user ID or undefined (uses the configured user or `/me`)
+   */
+  getUserId(): string | undefined {
+    return this.userId;
   }
 
   /**
    * Get current user's profile information
    *
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns User profile data
    *
    * @example
    * const user = await outlook.getMe();
    * console.log(user.displayName, user.mail);
    */
-  async getMe() {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/me`;
-      const res = await this.auth.getAxon().bearer(token).get(url);
-      return res.data;
-    });
+  async getMe(requestOptions: RequestOptions = {}) {
+    return this.graph.get(this.auth.getUserPath(this.userId), requestOptions);
   }
 
   /**
    * Send an email
    *
    * @param payload - Email message payload (Microsoft Graph format)
+   * @param requestOptions - Per-call options (`retry` override, or `batch` to queue it in a batch)
    *
    * @example
    * await outlook.sendMail({
@@ -81,67 +182,688 @@ export class Outlook {
    *   }
    * });
    */
-  async sendMail(payload: MailPayload) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const url = "https://graph.microsoft.com/v1.0/me/sendMail";
-      return await this.auth.getAxon().bearer(token).post(url, payload);
+  async sendMail(payload: MailPayload, requestOptions: RequestOptions = {}) {
+    const path = `${this.auth.getUserPath(this.userId)}/sendMail`;
+    return this.graph.request("POST", path, payload, requestOptions);
+  }
+
+  /**
+   * Reply to the sender of a message (low-level; see reply() for the builder)
+   * Recipients in `payload.message` are added to the sender; that takes three requests (draft,
+   * update, send) instead of one
+   *
+   * @param messageId - Message ID
+   * @param payload - `comment` or `message.body`, plus extra recipients and attachments
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   *
+   * @example
+   * await outlook.replyToMessage(id, { comment: 'Fixed in 1.4.2, thanks for the report.' });
+   */
+  async replyToMessage(
+    messageId: string,
+    payload: ReplyPayload = {},
+    requestOptions: RequestOptions = {}
+  ) {
+    return this.respond("reply", messageId, payload, requestOptions);
+  }
+
+  /**
+   * Reply to everyone on a message (low-level; see replyAll() for the builder)
+   * Recipients in `payload.message` are added to the thread's; that takes three requests (draft,
+   * update, send) instead of one
+   *
+   * @param messageId - Message ID
+   * @param payload - `comment` or `message.body`, plus extra recipients and attachments
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   */
+  async replyAllToMessage(
+    messageId: string,
+    payload: ReplyPayload = {},
+    requestOptions: RequestOptions = {}
+  ) {
+    return this.respond("replyAll", messageId, payload, requestOptions);
+  }
+
+  /**
+   * Forward a message (low-level; see forward() for the builder)
+   *
+   * @param messageId - Message ID
+   * @param payload - Recipients (at least one in `message.toRecipients`), `comment` or
+   *   `message.body`, and attachments
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @throws Error if there are no `toRecipients`
+   *
+   * @example
+   * await outlook.forwardMessage(id, {
+   *   comment: 'FYI',
+   *   message: { toRecipients: [{ emailAddress: { address: 'oncall@example.com' } }] },
+   * });
+   */
+  async forwardMessage(
+    messageId: string,
+    payload: ReplyPayload = {},
+    requestOptions: RequestOptions = {}
+  ) {
+    return this.respond("forward", messageId, payload, requestOptions);
+  }
+
+  /**
+   * Create a draft in the Drafts folder (low-level; see MailBuilder.saveDraft())
+   *
+   * @param message - Message properties, attachments up to 3 MB each included
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @returns The draft
+   */
+  async createDraft(
+    message: Partial<MailPayload["message"]>,
+    requestOptions: RequestOptions = {}
+  ): Promise<Message> {
+    const path = `${this.auth.getUserPath(this.userId)}/messages`;
+    return this.graph.post<Message>(path, message, requestOptions);
+  }
+
+  /**
+   * Create a draft reply, reply-all or forward (low-level; see MailBuilder.saveDraft())
+   * Recipients in `payload.message` are added to the ones Graph fills in
+   *
+   * @param action - 'reply', 'replyAll' or 'forward'
+   * @param messageId - Message to respond to
+   * @param payload - `comment` or `message.body`, plus extra recipients and attachments
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @returns The draft
+   */
+  async createResponseDraft(
+    action: MailResponseAction,
+    messageId: string,
+    payload: ReplyPayload = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<Message> {
+    const { comment, message = {} } = payload;
+    if (comment !== undefined && message.body) {
+      throw new Error("Give either a comment or a message body, not both");
+    }
+
+    const { toRecipients, ccRecipients, bccRecipients, ...content } = message;
+    const createAction = {
+      reply: "createReply",
+      replyAll: "createReplyAll",
+      forward: "createForward",
+    }[action];
+
+    return withCancellation(requestOptions, async (options) => {
+      const draft = await this.graph.post<Message>(
+        `${this.getMessagePath(messageId)}/${createAction}`,
+        { ...(comment !== undefined && { comment }), message: content },
+        options
+      );
+      if (!(toRecipients || ccRecipients || bccRecipients)) {
+        return draft;
+      }
+
+      return this.updateDraft(
+        draft.id,
+        {
+          toRecipients: mergeRecipients(draft.toRecipients, toRecipients),
+          ccRecipients: mergeRecipients(draft.ccRecipients, ccRecipients),
+          bccRecipients: mergeRecipients(draft.bccRecipients, bccRecipients),
+        },
+        options
+      );
     });
   }
 
+  /**
+   * Change the properties of a draft (low-level; see MailBuilder.saveDraft())
+   *
+   * @param draftId - Draft ID
+   * @param changes - Properties to set (attachments are added with addAttachment())
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @returns The updated draft
+   */
+  async updateDraft(
+    draftId: string,
+    changes: Partial<MailPayload["message"]>,
+    requestOptions: RequestOptions = {}
+  ): Promise<Message> {
+    return this.graph.patch<Message>(this.getMessagePath(draftId), changes, requestOptions);
+  }
+
+  /**
+   * Add a file attachment (up to 3 MB) to a draft
+   *
+   * @param draftId - Draft ID
+   * @param attachment - File attachment in Graph format
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @returns The attachment with its ID
+   */
+  async addAttachment(
+    draftId: string,
+    attachment: Attachment,
+    requestOptions: RequestOptions = {}
+  ): Promise<MessageAttachment> {
+    const path = `${this.getMessagePath(draftId)}/attachments`;
+    return this.graph.post<MessageAttachment>(path, attachment, requestOptions);
+  }
+
+  /**
+   * Send a draft; it is saved to Sent Items
+   *
+   * @param draftId - Draft ID
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   */
+  async sendDraft(draftId: string, requestOptions: RequestOptions = {}) {
+    const path = `${this.getMessagePath(draftId)}/send`;
+    return this.graph.request("POST", path, undefined, requestOptions);
+  }
+
   /**
    * Get emails received on a specific date
+   * Convenience over listMessages() returning simplified `Mail` objects with plain text bodies;
+   * use listMessages() for IDs, recipients, flags and the other message properties
    *
    * @param date - Date string (any format dayjs can parse)
    * @param subjectFilter - Optional subject filter
-   * @returns Array of emails
+   * @param options - Paging, query and per-call options (`pageSize`, `maxItems`, `query`, `retry`)
+   * @returns Emails; await for an array or iterate with `for await`
    *
    * @example
    * const emails = await outlook.getMails('2024-01-15', 'invoice');
+   *
+   * @example
+   * // Stop after the first 20 matches
+   * const latest = await outlook.getMails('2024-01-15', 'invoice', { maxItems: 20 });
    */
-  async getMails(date: string, subjectFilter?: string): Promise<Mail[]> {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const url = "https://graph.microsoft.com/v1.0/me/messages";
-      const formattedDate = dayjs(date).format("YYYY/MM/DD");
-
-      const searchQuery = [
-        `received:${formattedDate}`,
-        ...(subjectFilter ? [`subject:${subjectFilter}`] : []),
-      ].join(" AND ");
-
-      const params = {
-        $search: `"${searchQuery}"`,
-        $select: "from,subject,body,receivedDateTime",
+  getMails(date: string, subjectFilter?: string, options: ListOptions = {}): PageIterator<Mail> {
+    const formattedDate = dayjs(date).format("YYYY/MM/DD");
+
+    const searchQuery = [
+      `received:${formattedDate}`,
+      ...(subjectFilter ? [`subject:${subjectFilter}`] : []),
+    ].join(" AND ");
+
+    return this.queryMessages(
+      {
+        ...options,
+        search: searchQuery,
+        select: ["from", "subject", "body", "receivedDateTime"],
+      },
+      (messages) =>
+        messages
+          .filter((res) => res.subject)
+          .map((res) => ({
+            from: res.from!.emailAddress as Mail["from"],
+            subject: res.subject!,
+            body: this.parseMailBody(res.body!.content),
+            receivedDateTime: res.receivedDateTime!,
+          }))
+    );
+  }
+
+  /**
+   * List messages in the mailbox or in one folder
+   * Selects the common properties by default (no body); pass `select` for others
+   *
+   * @param options - Folder, `filter` / `search` / `orderBy`, `select`, `bodyType`, paging and
+   *   per-call options
+   * @returns Messages; await for an array or iterate with `for await`
+   *
+   * @example
+   * const unread = await outlook.listMessages({
+   *   folder: 'inbox',
+   *   filter: filter.eq('isRead', false),
+   *   orderBy: 'receivedDateTime desc',
+   *   maxItems: 50,
+   * });
+   *
+   * @example
+   * // Full text bodies, converted by Graph
+   * for await (const message of outlook.listMessages({
+   *   search: 'from:alerts@contoso.com',
+   *   select: ['id', 'subject', 'body'],
+   *   bodyType: 'text',
+   * })) {
+   *   console.log(message.subject, message.body?.content);
+   * }
+   */
+  listMessages(options: ListMessagesOptions = {}): PageIterator<Message> {
+    return this.queryMessages(options);
+  }
+
+  /**
+   * Get one message
+   * Returns every property unless `select` narrows it down
+   *
+   * @param messageId - Message ID
+   * @param options - `select`, `bodyType`, `includeAttachments` and per-call options
+   * @returns The message
+   *
+   * @example
+   * const message = await outlook.getMessage(id, { bodyType: 'text', includeAttachments: true });
+   * console.log(message.subject, message.attachments?.map((a) => a.name));
+   */
+  async getMessage(messageId: string, options: GetMessageOptions = {}): Promise<Message> {
+    const { select, bodyType, includeAttachments, ...requestOptions } = options;
+
+    return this.graph.get<Message>(this.getMessagePath(messageId), {
+      ...requestOptions,
+      ...this.getReadOptions({ select, bodyType, includeAttachments }),
+    });
+  }
+
+  /**
+   * List mail folders: the top-level ones, or the child folders of `parent`
+   *
+   * @param options - `parent`, `includeHidden`, paging and per-call options
+   * @returns Folders with their unread and total item counts
+   *
+   * @example
+   * const folders = await outlook.listFolders();
+   * const alerts = await outlook.listFolders({ parent: { path: 'Inbox/Alerts' } });
+   */
+  listFolders(options: ListFoldersOptions = {}): PageIterator<MailFolder> {
+    const { parent, includeHidden, ...listOptions } = options;
+
+    return this.graph.paginate<MailFolder>(
+      async (signal) =>
+        parent
+          ? `${await this.getFolderPath(parent, { retry: listOptions.retry, signal })}/childFolders`
+          : `${this.auth.getUserPath(this.userId)}/mailFolders`,
+      {
+        ...listOptions,
+        query: mergeQueries(includeHidden ? { includeHiddenFolders: true } : {}, listOptions.query),
+      }
+    );
+  }
+
+  /**
+   * Get the folder tree, every level loaded
+   * Standard folders are labelled with their well-known name (looked up in one batch request)
+   *
+   * @param options - `parent` (root of the tree), `includeHidden`, `maxDepth` and per-call options
+   * @returns Folders with their `path` (relative to `parent`) and `children`
+   *
+   * @example
+   * const tree = await outlook.getFolderTree();
+   * const inbox = tree.find((folder) => folder.wellKnownName === 'inbox');
+   * console.log(inbox?.children.map((folder) => `${folder.path}: ${folder.unreadItemCount}`));
+   */
+  async getFolderTree(options: FolderTreeOptions = {}): Promise<MailFolderNode[]> {
+    const { parent, includeHidden, maxDepth = Infinity, ...requestOptions } = options;
+
+    return withCancellation(requestOptions, async (callOptions) => {
+      const wellKnownNames = await this.getWellKnownFolderNames(callOptions);
+
+      const loadLevel = async (
+        levelParent: MailFolderRef | undefined,
+        parentPath: string,
+        depth: number
+      ): Promise<MailFolderNode[]> => {
+        const folders = await this.listFolders({
+          ...callOptions,
+          parent: levelParent,
+          includeHidden,
+        });
+
+        return Promise.all(
+          folders.map(async (folder) => {
+            const path = parentPath ? `${parentPath}/${folder.displayName}` : folder.displayName;
+            const wellKnownName = wellKnownNames.get(folder.id);
+            return {
+              ...folder,
+              path,
+              ...(wellKnownName && { wellKnownName }),
+              children:
+                folder.childFolderCount > 0 && depth < maxDepth
+                  ? await loadLevel({ id: folder.id }, path, depth + 1)
+                  : [],
+            };
+          })
+        );
       };
 
-      const fullResult = [];
-      const res = await this.auth.getAxon()
-        .bearer(token)
-        .params(params)
-        .get(url);
-      fullResult.push(...res.data.value);
-
-      let nextLink = res.data["@odata.nextLink"] || "";
-      while (nextLink) {
-        const nextRes = await this.auth.getAxon().bearer(token).get(nextLink);
-        fullResult.push(...nextRes.data.value);
-        nextLink = nextRes.data["@odata.nextLink"] || "";
+      return loadLevel(parent, "", 1);
+    });
+  }
+
+  /**
+   * Get a mail folder with its unread and total item counts
+   *
+   * @param folder - Folder ID, well-known name, folder object or `{ path }`
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   *
+   * @example
+   * const { unreadItemCount, totalItemCount } = await outlook.getFolder('inbox');
+   */
+  async getFolder(folder: MailFolderRef, requestOptions: RequestOptions = {}): Promise<MailFolder> {
+    return withCancellation(requestOptions, async (options) => {
+      if (typeof folder !== "string" && "path" in folder) {
+        return this.resolveFolder(folder.path, options);
       }
+      return this.graph.get<MailFolder>(await this.getFolderPath(folder, options), options);
+    });
+  }
+
+  /**
+   * Find a folder by its display path, e.g. 'Inbox/Alerts/Prod'
+   * The first segment may be a well-known name ('Inbox', 'Sent Items', 'archive', ...), which
+   * also works for mailboxes in other languages; the rest are matched by display name
+   *
+   * @param path - Folder names separated by '/'
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @throws Error if a folder on the path does not exist
+   *
+   * @example
+   * const prod = await outlook.resolveFolder('Inbox/Alerts/Prod');
+   */
+  async resolveFolder(path: string, requestOptions: RequestOptions = {}): Promise<MailFolder> {
+    const names = path
+      .split("/")
+      .map((name) => name.trim())
+      .filter(Boolean);
+    if (names.length === 0) {
+      throw new Error("Mail folder path is empty");
+    }
+
+    return withCancellation(requestOptions, async (options) => {
+      const userPath = this.auth.getUserPath(this.userId);
+      const [first, ...rest] = names;
+      const wellKnownName = first.toLowerCase().replace(/\s+/g, "") as WellKnownFolderName;
+
+      let folder = WELL_KNOWN_FOLDER_NAMES.includes(wellKnownName)
+        ? await this.graph.get<MailFolder>(`${userPath}/mailFolders/${wellKnownName}`, options)
+        : await this.findChildFolder(`${userPath}/mailFolders`, first, path, options);
+
+      for (const name of rest) {
+        const parentPath = `${userPath}/mailFolders/${encodeURIComponent(folder.id)}`;
+        folder = await this.findChildFolder(`${parentPath}/childFolders`, name, path, options);
+      }
+      return folder;
+    });
+  }
 
-      return fullResult
-        .filter((res) => res.subject)
-        .map((res) => ({
-          from: res.from.emailAddress,
-          subject: res.subject,
-          body: this.parseMailBody(res.body.content),
-          receivedDateTime: res.receivedDateTime,
-        }));
+  /**
+   * Create a mail folder
+   *
+   * @param displayName - Name of the new folder
+   * @param parent - Folder to create it in (default: top level)
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @returns The created folder
+   *
+   * @example
+   * const prod = await outlook.createFolder('Prod', { path: 'Inbox/Alerts' });
+   */
+  async createFolder(
+    displayName: string,
+    parent?: MailFolderRef,
+    requestOptions: RequestOptions = {}
+  ): Promise<MailFolder> {
+    return withCancellation(requestOptions, async (options) => {
+      const path = parent
+        ? `${await this.getFolderPath(parent, options)}/childFolders`
+        : `${this.auth.getUserPath(this.userId)}/mailFolders`;
+      return this.graph.post<MailFolder>(path, { displayName }, options);
+    });
+  }
+
+  /**
+   * Rename a mail folder
+   *
+   * @param folder - Folder ID, well-known name, folder object or `{ path }`
+   * @param displayName - New name
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @returns The updated folder
+   */
+  async renameFolder(
+    folder: MailFolderRef,
+    displayName: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<MailFolder> {
+    return withCancellation(requestOptions, async (options) => {
+      const path = await this.getFolderPath(folder, options);
+      return this.graph.patch<MailFolder>(path, { displayName }, options);
     });
   }
 
+  /**
+   * Delete a mail folder and everything in it (Graph moves it to Deleted Items)
+   *
+   * @param folder - Folder ID, folder object or `{ path }`
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   */
+  async deleteFolder(folder: MailFolderRef, requestOptions: RequestOptions = {}): Promise<void> {
+    await withCancellation(requestOptions, async (options) => {
+      await this.graph.delete(await this.getFolderPath(folder, options), options);
+    });
+  }
+
+  /**
+   * Move messages to a folder
+   * Several messages are sent in batch requests (20 per HTTP call)
+   *
+   * @param messageIds - Message ID or IDs
+   * @param folder - Folder ID, well-known name, folder object or `{ path }`
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @returns The moved messages, in the order of `messageIds` (moving changes a message's ID)
+   *
+   * @example
+   * const [moved] = await outlook.moveMessages(message.id, 'archive');
+   * await outlook.moveMessages(ids, { path: 'Inbox/Alerts/Prod' });
+   */
+  async moveMessages(
+    messageIds: string | string[],
+    folder: MailFolderRef,
+    requestOptions: RequestOptions = {}
+  ): Promise<Message[]> {
+    return this.transferMessages("move", messageIds, folder, requestOptions);
+  }
+
+  /**
+   * Copy messages to a folder
+   * Several messages are sent in batch requests (20 per HTTP call)
+   *
+   * @param messageIds - Message ID or IDs
+   * @param folder - Folder ID, well-known name, folder object or `{ path }`
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @returns The copies, in the order of `messageIds`
+   */
+  async copyMessages(
+    messageIds: string | string[],
+    folder: MailFolderRef,
+    requestOptions: RequestOptions = {}
+  ): Promise<Message[]> {
+    return this.transferMessages("copy", messageIds, folder, requestOptions);
+  }
+
+  /**
+   * Mark messages as read or unread
+   *
+   * @param messageIds - Message ID or IDs
+   * @param isRead - Read state to set (default: true)
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   *
+   * @example
+   * await outlook.markAsRead(unread.map((message) => message.id));
+   * await outlook.markAsRead(id, false);
+   */
+  async markAsRead(
+    messageIds: string | string[],
+    isRead: boolean = true,
+    requestOptions: RequestOptions = {}
+  ): Promise<void> {
+    await this.updateMessages(messageIds, { isRead }, requestOptions);
+  }
+
+  /**
+   * Flag messages for follow-up, or mark their flag complete
+   *
+   * @param messageIds - Message ID or IDs
+   * @param flag - Flag status, or the full flag with its start, due and reminder dates
+   *   (default: 'flagged')
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   *
+   * @example
+   * await outlook.setFlag(id);
+   * await outlook.setFlag(ids, {
+   *   flagStatus: 'flagged',
+   *   startDateTime: { dateTime: '2024-01-15T09:00:00', timeZone: 'UTC' },
+   *   dueDateTime: { dateTime: '2024-01-19T17:00:00', timeZone: 'UTC' },
+   * });
+   */
+  async setFlag(
+    messageIds: string | string[],
+    flag: FollowUpFlag | FollowUpFlag["flagStatus"] = "flagged",
+    requestOptions: RequestOptions = {}
+  ): Promise<void> {
+    const value = typeof flag === "string" ? { flagStatus: flag } : flag;
+    await this.updateMessages(messageIds, { flag: value }, requestOptions);
+  }
+
+  /**
+   * Clear the follow-up flag of messages
+   *
+   * @param messageIds - Message ID or IDs
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   */
+  async clearFlag(
+    messageIds: string | string[],
+    requestOptions: RequestOptions = {}
+  ): Promise<void> {
+    await this.updateMessages(messageIds, { flag: { flagStatus: "notFlagged" } }, requestOptions);
+  }
+
+  /**
+   * Add categories to messages, keeping the ones they already have
+   * The current categories are read first, so `batch` is not used; several messages are still
+   * read and updated in batch requests
+   *
+   * @param messageIds - Message ID or IDs
+   * @param categories - Category names
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   *
+   * @example
+   * await outlook.addCategories(ids, ['Alerts', 'Prod']);
+   */
+  async addCategories(
+    messageIds: string | string[],
+    categories: string[],
+    requestOptions: RequestOptions = {}
+  ): Promise<void> {
+    await this.changeCategories(
+      messageIds,
+      (current) => [...new Set([...current, ...categories])],
+      requestOptions
+    );
+  }
+
+  /**
+   * Remove categories from messages
+   * The current categories are read first, so `batch` is not used; several messages are still
+   * read and updated in batch requests
+   *
+   * @param messageIds - Message ID or IDs
+   * @param categories - Category names
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   */
+  async removeCategories(
+    messageIds: string | string[],
+    categories: string[],
+    requestOptions: RequestOptions = {}
+  ): Promise<void> {
+    await this.changeCategories(
+      messageIds,
+      (current) => current.filter((category) => !categories.includes(category)),
+      requestOptions
+    );
+  }
+
+  /**
+   * Delete messages: move them to Deleted Items, or purge them with `permanent: true`
+   * Purged messages can't be recovered by the user
+   *
+   * @param messageIds - Message ID or IDs
+   * @param options - `permanent` and per-call options
+   *
+   * @example
+   * await outlook.deleteMessages(ids);
+   * await outlook.deleteMessages(id, { permanent: true });
+   */
+  async deleteMessages(
+    messageIds: string | string[],
+    options: DeleteMessagesOptions = {}
+  ): Promise<void> {
+    const { permanent, ...requestOptions } = options;
+
+    if (!permanent) {
+      await this.moveMessages(messageIds, "deleteditems", requestOptions);
+      return;
+    }
+    await this.forEachMessage(
+      messageIds,
+      (path, callOptions) => this.graph.post(`${path}/permanentDelete`, undefined, callOptions),
+      requestOptions
+    );
+  }
+
+  /**
+   * List messages, shaping each page with `transform`
+   */
+  private queryMessages<T = Message>(
+    options: ListMessagesOptions,
+    transform?: (messages: Message[]) => T[]
+  ): PageIterator<T> {
+    const {
+      folder,
+      filter,
+      search,
+      orderBy,
+      select = DEFAULT_MESSAGE_FIELDS,
+      bodyType,
+      includeAttachments,
+      ...listOptions
+    } = options;
+
+    const query = new ODataQuery<Message>();
+    if (filter) {
+      query.filter(filter);
+    }
+    // search() quotes the term and escapes quotes in it
+    if (search !== undefined) {
+      query.search(search);
+    }
+
+    const readOptions = this.getReadOptions({ select, bodyType, includeAttachments });
+    const userPath = () => this.auth.getUserPath(this.userId);
+
+    return this.graph.paginate<T>(
+      async (signal) =>
+        folder
+          ? `${await this.getFolderPath(folder, { retry: listOptions.retry, signal })}/messages`
+          : `${userPath()}/messages`,
+      {
+        ...listOptions,
+        headers: readOptions.headers,
+        query: mergeQueries(query, readOptions.query, { $orderby: orderBy }, listOptions.query),
+        ...(transform && { transform }),
+      }
+    );
+  }
+
+  /**
+   * Query and headers for the message read options
+   */
+  private getReadOptions(options: MessageReadOptions) {
+    return {
+      query: {
+        $select: options.select?.length ? options.select.join(",") : undefined,
+        $expand: options.includeAttachments ? "attachments" : undefined,
+      },
+      // Graph converts the body when asked through the Prefer header
+      headers: options.bodyType
+        ? { Prefer: `outlook.body-content-type="${options.bodyType}"` }
+        : undefined,
+    };
+  }
+
   /**
    * Create a fluent email builder for composing emails
    *
@@ -166,7 +888,270 @@ export class Outlook {
    *   .send();
    */
   compose(): MailBuilder {
-    return new MailBuilder(this);
+    return new MailBuilder(this, this.auth.getLogger());
+  }
+
+  /**
+   * Reopen a draft in a fluent builder, to change it, add attachments and send it
+   *
+   * @param draftId - ID of a draft message
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @returns MailBuilder holding the draft's subject, body, recipients and other settings
+   * @throws Error if the message is not a draft
+   *
+   * @example
+   * const draft = await outlook.editDraft(draftId);
+   * await draft.cc(['manager@example.com']).attachments(['./appendix.pdf']).send();
+   */
+  async editDraft(draftId: string, requestOptions: RequestOptions = {}): Promise<MailBuilder> {
+    const draft = await this.getMessage(draftId, requestOptions);
+    if (draft.isDraft === false) {
+      throw new Error(`Message is not a draft: ${draftId}`);
+    }
+    return new MailBuilder(this, this.auth.getLogger(), { draft });
+  }
+
+  /**
+   * Create a fluent builder replying to the sender of a message
+   * `to()`, `cc()` and `bcc()` add recipients; `comment()` or `body()` set the text
+   *
+   * @param messageId - Message ID
+   * @returns MailBuilder instance for method chaining
+   *
+   * @example
+   * await outlook
+   *   .reply(message.id)
+   *   .comment('Thanks, deployed to prod.')
+   *   .cc(['team@example.com'])
+   *   .attachments(['./release-notes.pdf'])
+   *   .send();
+   */
+  reply(messageId: string): MailBuilder {
+    return new MailBuilder(this, this.auth.getLogger(), { action: "reply", messageId });
+  }
+
+  /**
+   * Create a fluent builder replying to everyone on a message
+   *
+   * @param messageId - Message ID
+   * @returns MailBuilder instance for method chaining
+   */
+  replyAll(messageId: string): MailBuilder {
+    return new MailBuilder(this, this.auth.getLogger(), { action: "replyAll", messageId });
+  }
+
+  /**
+   * Create a fluent builder forwarding a message
+   *
+   * @param messageId - Message ID
+   * @returns MailBuilder instance for method chaining
+   *
+   * @example
+   * await outlook.forward(message.id).to(['oncall@example.com']).comment('Please look').send();
+   */
+  forward(messageId: string): MailBuilder {
+    return new MailBuilder(this, this.auth.getLogger(), { action: "forward", messageId });
+  }
+
+  /**
+   * Send a reply, reply-all or forward
+   */
+  private async respond(
+    action: MailResponseAction,
+    messageId: string,
+    payload: ReplyPayload,
+    requestOptions: RequestOptions
+  ) {
+    const { comment, message = {} } = payload;
+    if (comment !== undefined && message.body) {
+      throw new Error("Give either a comment or a message body, not both");
+    }
+
+    const { toRecipients, ccRecipients, bccRecipients } = message;
+    if (action === "forward" && !toRecipients?.length) {
+      throw new Error("Forwarding a message needs at least one recipient");
+    }
+    if (action === "forward" || !(toRecipients || ccRecipients || bccRecipients)) {
+      const path = `${this.getMessagePath(messageId)}/${action}`;
+      return this.graph.request("POST", path, payload, requestOptions);
+    }
+
+    // Recipients sent with the reply would replace the ones Graph fills in, so add them to a draft
+    return withCancellation(requestOptions, async (options) => {
+      const draft = await this.createResponseDraft(action, messageId, payload, options);
+      return this.sendDraft(draft.id, options);
+    });
+  }
+
+  /**
+   * Graph path of a message
+   */
+  private getMessagePath(messageId: string): string {
+    return `${this.auth.getUserPath(this.userId)}/messages/${encodeURIComponent(messageId)}`;
+  }
+
+  /**
+   * Send one request per message
+   * Without a `batch` of the caller's, several messages are sent in batch requests of our own
+   *
+   * @returns Results in the order of `messageIds`; rejects with the first failure (the other
+   *   requests are still sent)
+   */
+  private async forEachMessage<T>(
+    messageIds: string | string[],
+    send: (messagePath: string, options: RequestOptions, index: number) => Promise<T>,
+    requestOptions: RequestOptions
+  ): Promise<T[]> {
+    const ids = Array.isArray(messageIds) ? messageIds : [messageIds];
+
+    return withCancellation(requestOptions, async (options) => {
+      if (options.batch || ids.length < 2) {
+        return Promise.all(ids.map((id, i) => send(this.getMessagePath(id), options, i)));
+      }
+
+      const batch = this.auth.batch({ retry: options.retry, signal: options.signal });
+      const results = Promise.all(
+        ids.map((id, i) => send(this.getMessagePath(id), { ...options, batch }, i))
+      );
+      const [values] = await Promise.all([results, batch.execute()]);
+      return values;
+    });
+  }
+
+  /**
+   * PATCH the same properties onto every message
+   */
+  private async updateMessages(
+    messageIds: string | string[],
+    changes: Partial<Message>,
+    requestOptions: RequestOptions
+  ): Promise<void> {
+    await this.forEachMessage(
+      messageIds,
+      (path, options) => this.graph.patch(path, changes, options),
+      requestOptions
+    );
+  }
+
+  /**
+   * Move or copy messages to a folder
+   */
+  private async transferMessages(
+    action: "move" | "copy",
+    messageIds: string | string[],
+    folder: MailFolderRef,
+    requestOptions: RequestOptions
+  ): Promise<Message[]> {
+    return withCancellation(requestOptions, async (options) => {
+      // No await for IDs and well-known names, so requests reach a caller's batch at once
+      let destinationId: string;
+      if (typeof folder === "string") {
+        destinationId = folder;
+      } else if ("id" in folder) {
+        destinationId = folder.id;
+      } else {
+        destinationId = (await this.resolveFolder(folder.path, options)).id;
+      }
+
+      return this.forEachMessage(
+        messageIds,
+        (path, callOptions) =>
+          this.graph.post<Message>(`${path}/${action}`, { destinationId }, callOptions),
+        options
+      );
+    });
+  }
+
+  /**
+   * Read the categories of messages and write back the changed ones
+   */
+  private async changeCategories(
+    messageIds: string | string[],
+    change: (current: string[]) => string[],
+    requestOptions: RequestOptions
+  ): Promise<void> {
+    await withCancellation({ ...requestOptions, batch: undefined }, async (options) => {
+      const messages = await this.forEachMessage(
+        messageIds,
+        (path, callOptions) =>
+          this.graph.get<Message>(path, { ...callOptions, query: { $select: "categories" } }),
+        options
+      );
+
+      // Adding or removing categories always changes the count, so same count means unchanged
+      const updates = messages
+        .map((message) => ({ id: message.id, categories: change(message.categories || []) }))
+        .filter(({ categories }, i) => categories.length !== (messages[i].categories || []).length);
+
+      await this.forEachMessage(
+        updates.map((update) => update.id),
+        (path, callOptions, i) =>
+          this.graph.patch(path, { categories: updates[i].categories }, callOptions),
+        options
+      );
+    });
+  }
+
+  /**
+   * Graph path of a folder, resolving `{ path }` references
+   */
+  private async getFolderPath(
+    folder: MailFolderRef,
+    requestOptions: RequestOptions = {}
+  ): Promise<string> {
+    let folderId: string;
+    if (typeof folder === "string") {
+      folderId = folder;
+    } else if ("id" in folder) {
+      folderId = folder.id;
+    } else {
+      folderId = (await this.resolveFolder(folder.path, requestOptions)).id;
+    }
+    return `${this.auth.getUserPath(this.userId)}/mailFolders/${encodeURIComponent(folderId)}`;
+  }
+
+  /**
+   * Find a folder in a folder collection by display name
+   */
+  private async findChildFolder(
+    collectionPath: string,
+    name: string,
+    fullPath: string,
+    requestOptions: RequestOptions
+  ): Promise<MailFolder> {
+    const res = await this.graph.get<{ value: MailFolder[] }>(collectionPath, {
+      ...requestOptions,
+      query: { $filter: `displayName eq ${formatLiteral(name)}` },
+    });
+
+    const folder = res.value?.[0];
+    if (!folder) {
+      throw new Error(`Mail folder "${name}" not found (resolving "${fullPath}")`);
+    }
+    return folder;
+  }
+
+  /**
+   * Map the IDs of the standard folders to their well-known names (one batch request)
+   * Folders the mailbox doesn't have are left out
+   */
+  private async getWellKnownFolderNames(
+    requestOptions: RequestOptions
+  ): Promise<Map<string, WellKnownFolderName>> {
+    const userPath = this.auth.getUserPath(this.userId);
+    const batch = this.auth.batch({ retry: requestOptions.retry, signal: requestOptions.signal });
+    for (const name of WELL_KNOWN_FOLDER_NAMES) {
+      batch.add({ method: "GET", url: `${userPath}/mailFolders/${name}?$select=id` });
+    }
+
+    const responses = await batch.execute();
+    const names = new Map<string, WellKnownFolderName>();
+    responses.forEach((response, i) => {
+      if (response.status === 200 && response.body?.id) {
+        names.set(response.body.id, WELL_KNOWN_FOLDER_NAMES[i]);
+      }
+    });
+    return names;
   }
 
   /**
@@ -179,16 +1164,57 @@ export class Outlook {
   }
 }
 
+/**
+ * Recipients of both lists, each address once
+ */
+function mergeRecipients(current: Recipient[] = [], added: Recipient[] = []): Recipient[] {
+  const seen = new Set(current.map((recipient) => recipient.emailAddress.address.toLowerCase()));
+  return [
+    ...current,
+    ...added.filter((recipient) => {
+      const address = recipient.emailAddress.address.toLowerCase();
+      return !seen.has(address) && seen.add(address);
+    }),
+  ];
+}
+
 /**
  * Fluent email builder for composing and sending emails
- * Use via outlook.compose()
+ * Use via outlook.compose(), or outlook.reply(), replyAll() and forward() to respond to a message
  */
 export class MailBuilder {
   private payload: MailPayload;
   private outlook: Outlook;
+  private logger: Logger;
+  private response?: { action: MailResponseAction; messageId: string };
+  private responseComment?: string;
+  private draftId?: string;
 
-  constructor(outlook: Outlook) {
+  /**
+   * @param outlook - Outlook instance the mail is sent with
+   * @param logger - Logger for attachment errors
+   * @param source - Message to reply to or forward, or draft to edit (default: a new message)
+   */
+  constructor(
+    outlook: Outlook,
+    logger: Logger = new ConsoleLogger(),
+    source?: { action: MailResponseAction; messageId: string } | { draft: Message }
+  ) {
     this.outlook = outlook;
+    this.logger = logger;
+
+    if (source && "draft" in source) {
+      this.payload = this.loadDraft(source.draft);
+      return;
+    }
+    // Only what the caller sets is sent with a response; Graph fills in the rest
+    if (source) {
+      this.response = source;
+      this.payload = {
+        message: { subject: "", body: { contentType: "Text", content: "" }, toRecipients: [] },
+      };
+      return;
+    }
     this.payload = {
       message: {
         subject: "",
@@ -223,6 +1249,7 @@ export class MailBuilder {
 
   /**
    * Set email body content
+   * For a reply or forward, this replaces the whole body, quoted original included (see comment())
    *
    * @param content - Email body content
    * @param contentType - 'Text' or 'HTML' (default: 'Text')
@@ -232,6 +1259,19 @@ export class MailBuilder {
     return this;
   }
 
+  /**
+   * Set the comment written above the quoted original (replies and forwards only)
+   *
+   * @throws Error if the builder composes a new message
+   */
+  comment(comment: string): MailBuilder {
+    if (!this.response) {
+      throw new Error("comment() only applies to reply(), replyAll() and forward()");
+    }
+    this.responseComment = comment;
+    return this;
+  }
+
   /**
    * Set unique body (different from body for threading)
    */
@@ -271,6 +1311,7 @@ export class MailBuilder {
 
   /**
    * Set primary recipients (To field)
+   * For a reply, they are added to the recipients Graph fills in
    */
   to(recipients: string[]): MailBuilder {
     this.payload.message.toRecipients = recipients.map((to) => ({
@@ -281,6 +1322,7 @@ export class MailBuilder {
 
   /**
    * Set carbon copy recipients (Cc field)
+   * For a reply, they are added to the recipients Graph fills in
    */
   cc(recipients: string[]): MailBuilder {
     this.payload.message.ccRecipients = recipients.map((cc) => ({
@@ -291,6 +1333,7 @@ export class MailBuilder {
 
   /**
    * Set blind carbon copy recipients (Bcc field)
+   * For a reply, they are added to the recipients Graph fills in
    */
   bcc(recipients: string[]): MailBuilder {
     this.payload.message.bccRecipients = recipients.map((bcc) => ({
@@ -344,7 +1387,7 @@ export class MailBuilder {
           });
         }
       } catch (error) {
-        console.error(`Error processing attachment:`, error);
+        this.logger.error(`Error processing attachment:`, error);
         throw new Error(
           `Failed to process attachment: ${typeof item === "string" ? item : item.name}`
         );
@@ -355,7 +1398,8 @@ export class MailBuilder {
   }
 
   /**
-   * Set whether to save email to Sent Items folder
+   * Set whether to save email to Sent Items folder (replies, forwards and drafts are always saved)
+   * Graph keeps a copy of every sent draft, so send() rejects false once the mail is a draft
    *
    * @param save - true to save, false to skip (default: true)
    */
@@ -397,12 +1441,85 @@ export class MailBuilder {
   }
 
   /**
-   * Send the email
+   * Save the email as a draft in the Drafts folder, or save the changes to the draft
+   * Once saved, the builder edits the draft: later calls update it and add new attachments, and
+   * send() sends it
+   *
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
+   * @returns The draft's ID (keep it to reopen the draft with outlook.editDraft())
    *
+   * @example
+   * const draftId = await outlook
+   *   .compose()
+   *   .subject('Weekly report')
+   *   .to(['boss@example.com'])
+   *   .attachments(['./report.pdf'])
+   *   .saveDraft();
+   */
+  async saveDraft(requestOptions: RequestOptions = {}): Promise<string> {
+    return withCancellation(requestOptions, async (options) => {
+      let draft: Message;
+
+      if (this.draftId) {
+        const { attachments = [], ...message } = this.payload.message;
+        draft = await this.outlook.updateDraft(this.draftId, message, options);
+        // Dropped once added, so a failed save can be retried without duplicates
+        while (attachments.length > 0) {
+          await this.outlook.addAttachment(this.draftId, attachments[0], options);
+          attachments.shift();
+        }
+      } else if (this.response) {
+        const { action, messageId } = this.response;
+        const payload = this.getResponsePayload();
+        draft = await this.outlook.createResponseDraft(action, messageId, payload, options);
+      } else {
+        draft = await this.outlook.createDraft(this.payload.message, options);
+      }
+
+      const { saveToSentItems } = this.payload;
+      this.payload = this.loadDraft(draft);
+      // Kept so send() can reject it instead of silently saving to Sent Items
+      if (saveToSentItems === "false") {
+        this.payload.saveToSentItems = saveToSentItems;
+      }
+      return draft.id;
+    });
+  }
+
+  /**
+   * Send the email (or the reply or forward)
+   * A draft is saved first, then sent; it always ends up in Sent Items
+   *
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns Axios response from Microsoft Graph API
+   * @throws Error if saveToSentItems(false) was set on a draft
    */
-  async send() {
-    return await this.outlook.sendMail(this.payload);
+  async send(requestOptions: RequestOptions = {}) {
+    if (this.draftId) {
+      if (this.payload.saveToSentItems === "false") {
+        throw new Error(
+          "saveToSentItems(false) is not supported for drafts: " +
+            "Graph always saves a sent draft to Sent Items"
+        );
+      }
+      return withCancellation(requestOptions, async (options) => {
+        return this.outlook.sendDraft(await this.saveDraft(options), options);
+      });
+    }
+    if (!this.response) {
+      return await this.outlook.sendMail(this.payload, requestOptions);
+    }
+
+    const { action, messageId } = this.response;
+    const payload = this.getResponsePayload();
+    switch (action) {
+      case "reply":
+        return await this.outlook.replyToMessage(messageId, payload, requestOptions);
+      case "replyAll":
+        return await this.outlook.replyAllToMessage(messageId, payload, requestOptions);
+      case "forward":
+        return await this.outlook.forwardMessage(messageId, payload, requestOptions);
+    }
   }
 
   /**
@@ -412,6 +1529,49 @@ export class MailBuilder {
     return this.payload;
   }
 
+  /**
+   * Switch to editing a saved draft
+   *
+   * @returns Payload holding the draft's settings (attachments lists only the ones not yet saved)
+   */
+  private loadDraft(draft: Message): MailPayload {
+    this.draftId = draft.id;
+    this.response = undefined;
+    this.responseComment = undefined;
+
+    return {
+      message: {
+        subject: draft.subject || "",
+        body: draft.body || { contentType: "Text", content: "" },
+        toRecipients: draft.toRecipients || [],
+        ccRecipients: draft.ccRecipients || [],
+        bccRecipients: draft.bccRecipients || [],
+        replyTo: draft.replyTo || [],
+        attachments: [],
+        importance: draft.importance || "normal",
+        categories: draft.categories || [],
+        isReadReceiptRequested: draft.isReadReceiptRequested || false,
+        ...(draft.flag && { flag: draft.flag }),
+      },
+    };
+  }
+
+  /**
+   * Reply or forward payload: the comment and the message properties that were set
+   */
+  private getResponsePayload(): ReplyPayload {
+    const { subject, body, toRecipients, ...message } = this.payload.message;
+    return {
+      ...(this.responseComment !== undefined && { comment: this.responseComment }),
+      message: {
+        ...message,
+        ...(subject && { subject }),
+        ...(body.content && { body }),
+        ...(toRecipients.length > 0 && { toRecipients }),
+      },
+    };
+  }
+
   /**
    * Helper to infer MIME type from file extension
    */
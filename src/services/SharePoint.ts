@@ -1,5 +1,8 @@
 import { AzureAuth } from "../core/auth";
-import { AzureConfig } from "../types";
+import { withCancellation } from "../core/cancellation";
+import { GraphClient } from "../core/client";
+import { Filter, mergeQueries } from "../core/odata";
+import { AzureConfig, ListOptions, RequestOptions } from "../types";
 
 /**
  * SharePoint service for Microsoft Graph API
@@ -7,6 +10,7 @@ import { AzureConfig } from "../types";
  */
 export class SharePoint {
   private auth: AzureAuth;
+  private graph: GraphClient;
   private siteId?: string;
 
   /**
@@ -30,6 +34,7 @@ export class SharePoint {
     } else {
       this.auth = new AzureAuth(config);
     }
+    this.graph = new GraphClient(this.auth);
 
     if (siteId) {
       this.siteId = siteId;
@@ -58,26 +63,25 @@ export class SharePoint {
    * Search for SharePoint sites
    *
    * @param query - Search query
-   * @returns Array of sites
+   * @param options - Paging, query and per-call options (`pageSize`, `maxItems`, `query`, `retry`)
+   * @returns Sites; await for an array or iterate with `for await`
    *
    * @example
    * const sites = await sharepoint.searchSites('Engineering');
    * console.log(sites); // [{ id: '...', displayName: 'Engineering Site', webUrl: '...' }]
    */
-  async searchSites(query: string) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/sites?search=${query}`;
-      const res = await this.auth.getAxon().bearer(token).get(url);
+  searchSites(query: string, options: ListOptions = {}) {
+    return this.graph.paginate(`/sites?search=${query}`, {
+      ...options,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return res.data.value.map((site: any) => ({
-        id: site.id,
-        displayName: site.displayName,
-        name: site.name,
-        webUrl: site.webUrl,
-        description: site.description,
-      }));
+      transform: (sites: any[]) =>
+        sites.map((site) => ({
+          id: site.id,
+          displayName: site.displayName,
+          name: site.name,
+          webUrl: site.webUrl,
+          description: site.description,
+        })),
     });
   }
 
@@ -86,56 +90,46 @@ export class SharePoint {
    *
    * @param hostname - SharePoint hostname (e.g., 'contoso.sharepoint.com')
    * @param sitePath - Site path (e.g., '/sites/team')
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns Site information
    *
    * @example
    * const site = await sharepoint.getSiteByPath('contoso.sharepoint.com', '/sites/engineering');
    */
-  async getSiteByPath(hostname: string, sitePath: string) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/sites/${hostname}:${sitePath}`;
-      const res = await this.auth.getAxon().bearer(token).get(url);
-      return {
-        id: res.data.id,
-        displayName: res.data.displayName,
-        name: res.data.name,
-        webUrl: res.data.webUrl,
-        description: res.data.description,
-      };
-    });
+  async getSiteByPath(hostname: string, sitePath: string, requestOptions: RequestOptions = {}) {
+    const site = await this.graph.get(`/sites/${hostname}:${sitePath}`, requestOptions);
+    return {
+      id: site.id,
+      displayName: site.displayName,
+      name: site.name,
+      webUrl: site.webUrl,
+      description: site.description,
+    };
   }
 
   /**
    * Get all lists in a site
    *
    * @param siteId - Optional site ID (uses instance siteId if not provided)
-   * @returns Array of lists
+   * @param options - Paging, query and per-call options (`pageSize`, `maxItems`, `query`, `retry`)
+   * @returns Lists; await for an array or iterate with `for await`
    *
    * @example
    * const lists = await sharepoint.getLists();
    * console.log(lists); // [{ id: '...', displayName: 'Tasks', ... }]
    */
-  async getLists(siteId?: string) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const targetSiteId = siteId || this.siteId;
-      if (!targetSiteId) {
-        throw new Error("Site ID is required. Provide it in constructor, setSiteId(), or as parameter.");
-      }
-
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/sites/${targetSiteId}/lists`;
-      const res = await this.auth.getAxon().bearer(token).get(url);
+  getLists(siteId?: string, options: ListOptions = {}) {
+    return this.graph.paginate(() => `/sites/${this.requireSiteId(siteId)}/lists`, {
+      ...options,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return res.data.value.map((list: any) => ({
-        id: list.id,
-        displayName: list.displayName,
-        name: list.name,
-        description: list.description,
-        webUrl: list.webUrl,
-      }));
+      transform: (lists: any[]) =>
+        lists.map((list) => ({
+          id: list.id,
+          displayName: list.displayName,
+          name: list.name,
+          description: list.description,
+          webUrl: list.webUrl,
+        })),
     });
   }
 
@@ -144,33 +138,27 @@ export class SharePoint {
    *
    * @param listIdOrName - List ID or display name
    * @param siteId - Optional site ID (uses instance siteId if not provided)
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns List information
    *
    * @example
    * const list = await sharepoint.getList('Tasks');
    */
-  async getList(listIdOrName: string, siteId?: string) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const targetSiteId = siteId || this.siteId;
-      if (!targetSiteId) {
-        throw new Error("Site ID is required. Provide it in constructor, setSiteId(), or as parameter.");
-      }
-
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/sites/${targetSiteId}/lists/${listIdOrName}`;
-      const res = await this.auth.getAxon().bearer(token).get(url);
-      return res.data;
-    });
+  async getList(listIdOrName: string, siteId?: string, requestOptions: RequestOptions = {}) {
+    const path = `/sites/${this.requireSiteId(siteId)}/lists/${listIdOrName}`;
+    return this.graph.get(path, requestOptions);
   }
 
   /**
    * Get all items from a list
    *
    * @param listId - List ID or display name
-   * @param options - Query options (filter, orderby, top, expand)
+   * @param options - Query options (filter, orderby, top, expand); `filter` is a string or a
+   *   `filter` builder expression, and `top` limits the number of items returned
    * @param siteId - Optional site ID (uses instance siteId if not provided)
-   * @returns Array of list items
+   * @param listOptions - Paging, query and per-call options
+   *   (`pageSize`, `maxItems`, `query`, `retry`)
+   * @returns List items; await for an array or iterate with `for await`
    *
    * @example
    * const items = await sharepoint.getListItems('Tasks', {
@@ -179,40 +167,43 @@ export class SharePoint {
    *   top: 10,
    *   expand: 'fields'
    * });
+   *
+   * @example
+   * // Filter built with proper quoting
+   * const mine = await sharepoint.getListItems('Tasks', {
+   *   filter: filter.and(filter.eq('fields/Owner', "O'Brien"), filter.ne('fields/Status', 'Done')),
+   *   expand: 'fields'
+   * });
+   *
+   * @example
+   * // Stream a large list 500 items at a time
+   * for await (const item of sharepoint.getListItems('Tasks', {}, undefined, { pageSize: 500 })) {
+   *   console.log(item.id);
+   * }
    */
-  async getListItems(
+  getListItems(
     listId: string,
     options?: {
-      filter?: string;
+      filter?: string | Filter;
       orderby?: string;
       top?: number;
       expand?: string;
     },
-    siteId?: string
+    siteId?: string,
+    listOptions: ListOptions = {}
   ) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const targetSiteId = siteId || this.siteId;
-      if (!targetSiteId) {
-        throw new Error("Site ID is required. Provide it in constructor, setSiteId(), or as parameter.");
-      }
-
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/sites/${targetSiteId}/lists/${listId}/items`;
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const params: any = {};
-      if (options?.filter) params.$filter = options.filter;
-      if (options?.orderby) params.$orderby = options.orderby;
-      if (options?.top) params.$top = options.top;
-      if (options?.expand) params.$expand = options.expand;
-
-      const res = await this.auth.getAxon()
-        .bearer(token)
-        .params(params)
-        .get(url);
-
-      return res.data.value;
+    const path = () => `/sites/${this.requireSiteId(siteId)}/lists/${listId}/items`;
+    const query = {
+      $filter: options?.filter?.toString() || undefined,
+      $orderby: options?.orderby || undefined,
+      $expand: options?.expand || undefined,
+    };
+
+    return this.graph.paginate(path, {
+      ...listOptions,
+      pageSize: listOptions.pageSize ?? options?.top,
+      maxItems: listOptions.maxItems ?? options?.top,
+      query: mergeQueries(query, listOptions.query),
     });
   }
 
@@ -223,6 +214,7 @@ export class SharePoint {
    * @param itemId - Item ID
    * @param expand - Optional fields to expand (e.g., 'fields')
    * @param siteId - Optional site ID (uses instance siteId if not provided)
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns List item
    *
    * @example
@@ -232,29 +224,11 @@ export class SharePoint {
     listId: string,
     itemId: string,
     expand?: string,
-    siteId?: string
+    siteId?: string,
+    requestOptions: RequestOptions = {}
   ) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const targetSiteId = siteId || this.siteId;
-      if (!targetSiteId) {
-        throw new Error("Site ID is required. Provide it in constructor, setSiteId(), or as parameter.");
-      }
-
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/sites/${targetSiteId}/lists/${listId}/items/${itemId}`;
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const params: any = {};
-      if (expand) params.$expand = expand;
-
-      const res = await this.auth.getAxon()
-        .bearer(token)
-        .params(params)
-        .get(url);
-
-      return res.data;
-    });
+    const path = `/sites/${this.requireSiteId(siteId)}/lists/${listId}/items/${itemId}`;
+    return this.graph.get(path, { ...requestOptions, query: { $expand: expand } });
   }
 
   /**
@@ -263,6 +237,7 @@ export class SharePoint {
    * @param listId - List ID or display name
    * @param fields - Field values for the new item
    * @param siteId - Optional site ID (uses instance siteId if not provided)
+   * @param requestOptions - Per-call options (`retry` override, or `batch` to queue it in a batch)
    * @returns Created item
    *
    * @example
@@ -276,23 +251,11 @@ export class SharePoint {
     listId: string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     fields: Record<string, any>,
-    siteId?: string
+    siteId?: string,
+    requestOptions: RequestOptions = {}
   ) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const targetSiteId = siteId || this.siteId;
-      if (!targetSiteId) {
-        throw new Error("Site ID is required. Provide it in constructor, setSiteId(), or as parameter.");
-      }
-
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/sites/${targetSiteId}/lists/${listId}/items`;
-
-      const payload = { fields };
-
-      const res = await this.auth.getAxon().bearer(token).post(url, payload);
-      return res.data;
-    });
+    const path = `/sites/${this.requireSiteId(siteId)}/lists/${listId}/items`;
+    return this.graph.post(path, { fields }, requestOptions);
   }
 
   /**
@@ -302,6 +265,7 @@ export class SharePoint {
    * @param itemId - Item ID
    * @param fields - Field values to update
    * @param siteId - Optional site ID (uses instance siteId if not provided)
+   * @param requestOptions - Per-call options (`retry` override, or `batch` to queue it in a batch)
    * @returns Updated item
    *
    * @example
@@ -314,23 +278,11 @@ export class SharePoint {
     itemId: string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     fields: Record<string, any>,
-    siteId?: string
+    siteId?: string,
+    requestOptions: RequestOptions = {}
   ) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const targetSiteId = siteId || this.siteId;
-      if (!targetSiteId) {
-        throw new Error("Site ID is required. Provide it in constructor, setSiteId(), or as parameter.");
-      }
-
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/sites/${targetSiteId}/lists/${listId}/items/${itemId}`;
-
-      const payload = { fields };
-
-      const res = await this.auth.getAxon().bearer(token).patch(url, payload);
-      return res.data;
-    });
+    const path = `/sites/${this.requireSiteId(siteId)}/lists/${listId}/items/${itemId}`;
+    return this.graph.patch(path, { fields }, requestOptions);
   }
 
   /**
@@ -339,43 +291,51 @@ export class SharePoint {
    * @param listId - List ID or display name
    * @param itemId - Item ID to delete
    * @param siteId - Optional site ID (uses instance siteId if not provided)
+   * @param requestOptions - Per-call options (`retry` override, or `batch` to queue it in a batch)
    *
    * @example
    * await sharepoint.deleteListItem('Tasks', '123');
    */
-  async deleteListItem(listId: string, itemId: string, siteId?: string) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const targetSiteId = siteId || this.siteId;
-      if (!targetSiteId) {
-        throw new Error("Site ID is required. Provide it in constructor, setSiteId(), or as parameter.");
-      }
-
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/sites/${targetSiteId}/lists/${listId}/items/${itemId}`;
-      await this.auth.getAxon().bearer(token).delete(url);
-    });
+  async deleteListItem(
+    listId: string,
+    itemId: string,
+    siteId?: string,
+    requestOptions: RequestOptions = {}
+  ) {
+    const path = `/sites/${this.requireSiteId(siteId)}/lists/${listId}/items/${itemId}`;
+    await this.graph.delete(path, requestOptions);
   }
 
   /**
    * Delete multiple items from a list
+   * Deletes are queued by the request scheduler, so large batches respect the configured
+   * rate limit and concurrency cap instead of all being sent at once
    *
    * @param listId - List ID or display name
    * @param itemIds - Array of item IDs to delete
    * @param siteId - Optional site ID (uses instance siteId if not provided)
+   * @param requestOptions - Per-call options (`retry` override, or `batch` to queue it in a batch)
    *
    * @example
    * await sharepoint.deleteListItems('Tasks', ['123', '456', '789']);
+   *
+   * @example
+   * // 20 deletes per HTTP call
+   * const batch = auth.batch();
+   * const deleted = sharepoint.deleteListItems('Tasks', itemIds, undefined, { batch });
+   * await batch.execute();
+   * await deleted;
    */
   async deleteListItems(
     listId: string,
     itemIds: string[],
-    siteId?: string
+    siteId?: string,
+    requestOptions: RequestOptions = {}
   ) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
+    return withCancellation(requestOptions, async (options) => {
+      // With a batch they are all queued before the first await; execute() on the batch sends them
       await Promise.all(
-        itemIds.map((itemId) => this.deleteListItem(listId, itemId, siteId))
+        itemIds.map((itemId) => this.deleteListItem(listId, itemId, siteId, options))
       );
     });
   }
@@ -384,10 +344,11 @@ export class SharePoint {
    * Query list items and process them (useful for task queues)
    *
    * @param listId - List ID or display name
-   * @param filter - OData filter expression
+   * @param filter - OData filter expression (string or `filter` builder expression)
    * @param processor - Function to process each item
    * @param deleteAfterProcess - Whether to delete items after processing (default: false)
    * @param siteId - Optional site ID (uses instance siteId if not provided)
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns Array of processed results
    *
    * @example
@@ -401,14 +362,14 @@ export class SharePoint {
    */
   async queryAndProcess<T>(
     listId: string,
-    filter: string,
+    filter: string | Filter,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     processor: (item: any) => T,
     deleteAfterProcess: boolean = false,
-    siteId?: string
+    siteId?: string,
+    requestOptions: RequestOptions = {}
   ): Promise<T[]> {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
+    return withCancellation(requestOptions, async (options) => {
       const items = await this.getListItems(
         listId,
         {
@@ -416,7 +377,8 @@ export class SharePoint {
           expand: "fields",
           orderby: "createdDateTime asc",
         },
-        siteId
+        siteId,
+        options
       );
 
       if (!items || items.length === 0) {
@@ -428,7 +390,7 @@ export class SharePoint {
       if (deleteAfterProcess) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const itemIds = items.map((item: any) => item.id);
-        await this.deleteListItems(listId, itemIds, siteId);
+        await this.deleteListItems(listId, itemIds, siteId, options);
       }
 
       return results;
@@ -440,8 +402,9 @@ export class SharePoint {
    *
    * @param listId - List ID or display name
    * @param orderBy - Field to order by (default: 'createdDateTime desc')
-   * @param filter - Optional OData filter expression
+   * @param filter - Optional OData filter expression (string or `filter` builder expression)
    * @param siteId - Optional site ID (uses instance siteId if not provided)
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns Latest item or undefined
    *
    * @example
@@ -450,11 +413,11 @@ export class SharePoint {
   async getLatestItem(
     listId: string,
     orderBy: string = "createdDateTime desc",
-    filter?: string,
-    siteId?: string
+    filter?: string | Filter,
+    siteId?: string,
+    requestOptions: RequestOptions = {}
   ) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
+    return withCancellation(requestOptions, async (options) => {
       const items = await this.getListItems(
         listId,
         {
@@ -463,7 +426,8 @@ export class SharePoint {
           top: 1,
           expand: "fields",
         },
-        siteId
+        siteId,
+        options
       );
 
       return items && items.length > 0 ? items[0] : undefined;
@@ -475,33 +439,39 @@ export class SharePoint {
    *
    * @param listId - List ID or display name
    * @param siteId - Optional site ID (uses instance siteId if not provided)
-   * @returns Array of column definitions
+   * @param options - Paging, query and per-call options (`pageSize`, `maxItems`, `query`, `retry`)
+   * @returns Column definitions; await for an array or iterate with `for await`
    *
    * @example
    * const columns = await sharepoint.getListColumns('Tasks');
    * console.log(columns); // [{ name: 'Title', displayName: 'Title', ... }]
    */
-  async getListColumns(listId: string, siteId?: string) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const targetSiteId = siteId || this.siteId;
-      if (!targetSiteId) {
-        throw new Error("Site ID is required. Provide it in constructor, setSiteId(), or as parameter.");
-      }
-
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/sites/${targetSiteId}/lists/${listId}/columns`;
-      const res = await this.auth.getAxon().bearer(token).get(url);
+  getListColumns(listId: string, siteId?: string, options: ListOptions = {}) {
+    const path = () => `/sites/${this.requireSiteId(siteId)}/lists/${listId}/columns`;
+    return this.graph.paginate(path, {
+      ...options,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return res.data.value.map((column: any) => ({
-        id: column.id,
-        name: column.name,
-        displayName: column.displayName,
-        columnGroup: column.columnGroup,
-        description: column.description,
-        hidden: column.hidden,
-        readOnly: column.readOnly,
-      }));
+      transform: (columns: any[]) =>
+        columns.map((column) => ({
+          id: column.id,
+          name: column.name,
+          displayName: column.displayName,
+          columnGroup: column.columnGroup,
+          description: column.description,
+          hidden: column.hidden,
+          readOnly: column.readOnly,
+        })),
     });
   }
+
+  /**
+   * Site ID for a call: the given one, else the instance's
+   */
+  private requireSiteId(siteId?: string): string {
+    const targetSiteId = siteId || this.siteId;
+    if (!targetSiteId) {
+      throw new Error("Site ID is required. Provide it in constructor, setSiteId(), or as parameter.");
+    }
+    return targetSiteId;
+  }
 }
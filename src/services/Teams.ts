@@ -1,5 +1,6 @@
 import { AzureAuth } from "../core/auth";
-import { AzureConfig, Tag } from "../types";
+import { GraphClient } from "../core/client";
+import { AzureConfig, ListOptions, RequestOptions, Tag } from "../types";
 
 /**
  * Teams service for Microsoft Graph API
@@ -7,45 +8,71 @@ import { AzureConfig, Tag } from "../types";
  */
 export class Teams {
   private auth: AzureAuth;
+  private graph: GraphClient;
+  private userId?: string;
 
   /**
    * Create a new Teams service instance
    *
    * @param config - Optional config or AzureAuth instance
+   * @param userId - Optional user ID or UPN to act on instead of `/me` (required in app-only mode)
    *
    * @example
    * const teams = new Teams();
    * await teams.postAdaptiveCard(teamId, channelId, card, tags);
    */
-  constructor(config?: AzureConfig | AzureAuth) {
+  constructor(config?: AzureConfig | AzureAuth, userId?: string) {
     if (config instanceof AzureAuth) {
       this.auth = config;
     } else {
       this.auth = new AzureAuth(config);
     }
+    this.graph = new GraphClient(this.auth);
+
+    if (userId) {
+      this.userId = userId;
+    }
+  }
+
+  /**
+   * Set the target user ID or UPN for this instance
+   * Required in app-only mode, where `/me` is not available
+   *
+   * @param userId - User ID or UPN (e.g., 'user@contoso.com')
+   */
+  setUserId(userId: string): void {
+    this.userId = userId;
+  }
+
+  /**
+   * Get the target user ID
+   *
+   * @returns Current user ID or undefined (uses the configured user or `/me`)
+   */
+  getUserId(): string | undefined {
+    return this.userId;
   }
 
   /**
    * Get all teams for the current user
    *
-   * @returns Array of teams with id and displayName
+   * @param options - Paging, query and per-call options (`pageSize`, `maxItems`, `query`, `retry`)
+   * @returns Teams with id and displayName; await for an array or iterate with `for await`
    *
    * @example
    * const teams = await teams.getTeams();
    * console.log(teams); // [{ id: '...', displayName: 'Engineering Team' }, ...]
    */
-  async getTeams() {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const url = "https://graph.microsoft.com/v1.0/me/joinedTeams";
-      const res = await this.auth.getAxon().bearer(token).get(url);
+  getTeams(options: ListOptions = {}) {
+    return this.graph.paginate(() => `${this.auth.getUserPath(this.userId)}/joinedTeams`, {
+      ...options,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return res.data.value.map((team: any) => ({
-        id: team.id,
-        displayName: team.displayName,
-        description: team.description,
-      }));
+      transform: (teams: any[]) =>
+        teams.map((team) => ({
+          id: team.id,
+          displayName: team.displayName,
+          description: team.description,
+        })),
     });
   }
 
@@ -53,25 +80,24 @@ export class Teams {
    * Get all channels for a specific team
    *
    * @param teamId - Team ID
-   * @returns Array of channels with id and displayName
+   * @param options - Paging, query and per-call options (`pageSize`, `maxItems`, `query`, `retry`)
+   * @returns Channels with id and displayName; await for an array or iterate with `for await`
    *
    * @example
    * const channels = await teams.getChannels('team-id');
    * console.log(channels); // [{ id: '...', displayName: 'General' }, ...]
    */
-  async getChannels(teamId: string) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/teams/${teamId}/channels`;
-      const res = await this.auth.getAxon().bearer(token).get(url);
+  getChannels(teamId: string, options: ListOptions = {}) {
+    return this.graph.paginate(`/teams/${teamId}/channels`, {
+      ...options,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return res.data.value.map((channel: any) => ({
-        id: channel.id,
-        displayName: channel.displayName,
-        description: channel.description,
-        membershipType: channel.membershipType,
-      }));
+      transform: (channels: any[]) =>
+        channels.map((channel) => ({
+          id: channel.id,
+          displayName: channel.displayName,
+          description: channel.description,
+          membershipType: channel.membershipType,
+        })),
     });
   }
 
@@ -79,25 +105,24 @@ export class Teams {
    * Get all tags for a specific team
    *
    * @param teamId - Team ID
-   * @returns Array of tags with id and displayName
+   * @param options - Paging, query and per-call options (`pageSize`, `maxItems`, `query`, `retry`)
+   * @returns Tags with id and displayName; await for an array or iterate with `for await`
    *
    * @example
    * const tags = await teams.getTags('team-id');
    * console.log(tags); // [{ id: '...', displayName: 'Engineering', memberCount: 5 }, ...]
    */
-  async getTags(teamId: string) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const url = `https://graph.microsoft.com/v1.0/teams/${teamId}/tags`;
-      const res = await this.auth.getAxon().bearer(token).get(url);
+  getTags(teamId: string, options: ListOptions = {}) {
+    return this.graph.paginate(`/teams/${teamId}/tags`, {
+      ...options,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return res.data.value.map((tag: any) => ({
-        id: tag.id,
-        displayName: tag.displayName,
-        description: tag.description,
-        memberCount: tag.memberCount,
-      }));
+      transform: (tags: any[]) =>
+        tags.map((tag) => ({
+          id: tag.id,
+          displayName: tag.displayName,
+          description: tag.description,
+          memberCount: tag.memberCount,
+        })),
     });
   }
 
@@ -108,6 +133,7 @@ export class Teams {
    * @param channelId - Channel ID
    * @param card - Adaptive card JSON
    * @param tags - Optional mention tags
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns Response data
    *
    * @example
@@ -123,39 +149,35 @@ export class Teams {
     channelId: string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     card: any,
-    tags?: Tag[]
+    tags?: Tag[],
+    requestOptions: RequestOptions = {}
   ) {
-    await this.auth.checkToken();
-    return this.auth.withRetry(async () => {
-      const token = await this.auth.getAccessToken();
-      const tagText = tags ? this.createMentionTags(tags).join("<br>") : "";
+    const tagText = tags ? this.createMentionTags(tags).join("<br>") : "";
 
-      // Generate a random attachment ID
-      const attachmentId = this.generateAttachmentId();
+    // Generate a random attachment ID
+    const attachmentId = this.generateAttachmentId();
 
-      const payload = {
-        body: {
-          contentType: "html",
-          content: `<div><div>${tagText}<attachment id="${attachmentId}"></attachment></div></div>`,
+    const payload = {
+      body: {
+        contentType: "html",
+        content: `<div><div>${tagText}<attachment id="${attachmentId}"></attachment></div></div>`,
+      },
+      attachments: [
+        {
+          id: attachmentId,
+          contentType: "application/vnd.microsoft.card.adaptive",
+          contentUrl: null,
+          content: JSON.stringify(card),
+          name: null,
+          thumbnailUrl: null,
+          teamsAppId: null,
         },
-        attachments: [
-          {
-            id: attachmentId,
-            contentType: "application/vnd.microsoft.card.adaptive",
-            contentUrl: null,
-            content: JSON.stringify(card),
-            name: null,
-            thumbnailUrl: null,
-            teamsAppId: null,
-          },
-        ],
-        mentions: tags ? this.createMentionBody(tags) : [],
-      };
+      ],
+      mentions: tags ? this.createMentionBody(tags) : [],
+    };
 
-      const url = `https://graph.microsoft.com/v1.0/teams/${teamId}/channels/${channelId}/messages`;
-      const res = await this.auth.getAxon().bearer(token).post(url, payload);
-      return res.data;
-    });
+    const path = `/teams/${teamId}/channels/${channelId}/messages`;
+    return this.graph.post(path, payload, requestOptions);
   }
 
   /**
@@ -384,10 +406,11 @@ export class AdaptiveCardBuilder {
   /**
    * Send the adaptive card to Teams
    *
+   * @param requestOptions - Per-call options (e.g. `{ retry: false }`)
    * @returns Response data from Microsoft Graph API
    * @throws Error if team ID, channel ID, or card is not set
    */
-  async send() {
+  async send(requestOptions: RequestOptions = {}) {
     if (!this.teamId) {
       throw new Error("Team ID is required. Use .team() to set it.");
     }
@@ -402,7 +425,8 @@ export class AdaptiveCardBuilder {
       this.teamId,
       this.channelId,
       this.adaptiveCard,
-      this.tags.length > 0 ? this.tags : undefined
+      this.tags.length > 0 ? this.tags : undefined,
+      requestOptions
     );
   }
 }
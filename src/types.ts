@@ -1,3 +1,6 @@
+import type { GraphBatch } from './core/batch';
+import type { Filter, ODataQuery } from './core/odata';
+
 /**
  * Configuration for Azure authentication
  *
@@ -9,6 +12,9 @@
  *
  * Super User Mode:
  * Provide tokenProvider + credentials for infinite auto-renewal
+ *
+ * App-Only Mode:
+ * Set appOnly + credentials for unattended jobs (client credentials flow, no user sign-in)
  */
 export interface AzureConfig {
   // Light user: access token only (expires in ~1 hour)
@@ -21,24 +27,339 @@ export interface AzureConfig {
   // Will be called with OAuth callback URL when authorization code is needed
   tokenProvider?: (callback: string) => Promise<string> | string;
 
+  // Super user (headless): built-in device code flow instead of a custom tokenProvider
+  // true prints the sign-in instructions to the console; pass options to handle them yourself
+  deviceCode?: boolean | DeviceCodeOptions;
+
+  // Super user (interactive): built-in browser login via a localhost redirect with PKCE
+  // Requires a 'Mobile and desktop applications' redirect URI of http://localhost on the app registration
+  interactiveLogin?: boolean | InteractiveLoginOptions;
+
+  // Optional: Where refresh tokens are persisted (default: FileTokenStore in the platform config directory)
+  // Use MemoryTokenStore or your own adapter (Redis, Key Vault, ...) for ephemeral environments
+  tokenStore?: TokenStore;
+
+  // Optional: Encrypt token files at rest (AES-256-GCM, scrypt key derivation)
+  // Applies to the default FileTokenStore; can also be set via MS_GRAPH_TOKEN_ENCRYPTION_KEY
+  tokenEncryptionKey?: string;
+
+  // Optional: Redirect URI passed to tokenProvider flows (default: 'https://oauth.pstmn.io/v1/callback')
+  redirectUri?: string;
+
   // Required credentials (can come from env variables)
   clientId?: string;
   clientSecret?: string;
   tenantId?: string;
 
+  // Alternative to clientSecret: certificate used to sign a JWT client assertion
+  clientCertificate?: ClientCertificate;
+
+  // App-only: use the client credentials flow instead of a delegated user token
+  // Requires application permissions (admin consent) on the app registration
+  appOnly?: boolean;
+
+  // Optional: Target user ID or UPN for user-scoped endpoints (used instead of /me)
+  // Required in app-only mode for Outlook, Teams and Calendar operations
+  userId?: string;
+
   // Optional: Custom OAuth scopes
-  // If not provided, uses DEFAULT_SCOPES (works in 99% of cases)
+  // If not provided, uses DEFAULT_SCOPES (works in 99% of cases), or '{graphEndpoint}/.default' in app-only mode
   // Example: ['User.Read', 'Mail.Send', 'Sites.ReadWrite.All']
   scopes?: string[];
 
   // Optional: Allow insecure SSL connections (for development/testing)
   // WARNING: Only use this in trusted development environments
   allowInsecure?: boolean;
+
+  // Optional: Microsoft Graph endpoint (default: 'https://graph.microsoft.com')
+  // Examples: 'https://graph.microsoft.us' (US Gov L4), 'https://microsoftgraph.chinacloudapi.cn' (China),
+  // or 'http://localhost:4000' for a local mock server
+  graphEndpoint?: string;
+
+  // Optional: Microsoft Graph API version (default: 'v1.0')
+  graphVersion?: string;
+
+  // Optional: Login authority host used for token requests (default: 'https://login.microsoftonline.com')
+  // Examples: 'https://login.microsoftonline.us' (US Gov), 'https://login.chinacloudapi.cn' (China)
+  authorityHost?: string;
+
+  // Optional: Refresh tokens this long before they expire, in ms (default: 5 minutes)
+  // For long-running daemons, also see AzureAuth.startBackgroundRefresh()
+  expirySkewMs?: number;
+
+  // Optional: Where library log output goes (default: ConsoleLogger at 'info')
+  // Use SilentLogger to mute, ConsoleLogger('debug') for redacted request/response logging,
+  // or your own adapter (pino, winston, ...)
+  logger?: Logger;
+
+  // Optional: Token lifecycle hooks (refresh, provider fallback, persistence, auth errors)
+  // Hooks receive metadata only - never access or refresh tokens
+  hooks?: AuthHooks;
+
+  // Optional: Retry policy for throttled (429) and unavailable (503/504) Graph responses
+  // Applies to every request; set to false to disable retries entirely
+  retry?: RetryOptions | false;
+
+  // Optional: Client-side rate limit and concurrency cap, shared by every instance using the
+  // same tenant and host. Set to false to send requests unscheduled
+  rateLimit?: RateLimitConfig | false;
+}
+
+/**
+ * Retry policy for throttled and temporarily unavailable responses
+ * Unset fields fall back to the defaults below
+ */
+export interface RetryOptions {
+  maxAttempts?: number; // Total attempts including the first (default: 4)
+  baseDelayMs?: number; // Backoff before the first retry, doubled each attempt (default: 1000)
+  maxDelayMs?: number; // Upper bound for the backoff delay (default: 30000)
+  statuses?: number[]; // Response statuses to retry (default: [429, 503, 504])
+  methods?: string[]; // HTTP methods to retry (default: GET, HEAD, OPTIONS, PUT, DELETE)
+
+  // Called for every retryable response, whether or not it will be retried
+  onThrottled?: (info: ThrottledInfo) => void;
+}
+
+/**
+ * Details of a throttled (or temporarily unavailable) request
+ */
+export interface ThrottledInfo {
+  method: string;
+  url: string;
+  status: number;
+  attempt: number; // 1 for the first request
+  maxAttempts: number;
+  retryAfter?: number; // Seconds from the Retry-After header, if sent
+  delayMs?: number; // How long until the next attempt (only when willRetry)
+  willRetry: boolean; // false once attempts are exhausted or the method is not retryable
+}
+
+/**
+ * Token-bucket rate limit plus a cap on in-flight requests
+ */
+export interface RateLimitOptions {
+  requestsPerSecond?: number; // Sustained request rate (default: 10; 0 for no rate limit)
+  burst?: number; // Requests allowed back-to-back before the rate applies (default: requestsPerSecond)
+  maxConcurrent?: number; // Requests in flight at once (default: 5)
+}
+
+/**
+ * Rate limit for a tenant, with optional overrides per host (resource)
+ */
+export interface RateLimitConfig extends RateLimitOptions {
+  // Keyed by host, e.g. { 'graph.microsoft.com': { maxConcurrent: 2 } }; false disables for that host
+  resources?: { [host: string]: RateLimitOptions | false };
+}
+
+/**
+ * Per-call options accepted by every service method
+ */
+export interface RequestOptions {
+  // Override the configured retry policy for this call (false disables retries)
+  retry?: RetryOptions | false;
+
+  // Queue the request in a batch instead of sending it (supported by GraphClient requests and by
+  // createListItem, updateListItem, deleteListItem and sendMail); it resolves once the batch
+  // is executed
+  batch?: GraphBatch;
+
+  // Cancel the call; it rejects with a RequestAbortedError
+  signal?: AbortSignal;
+
+  // Give up on the call after this long (token refresh, retries and every page included); it
+  // rejects with a RequestTimeoutError
+  timeoutMs?: number;
+}
+
+/**
+ * Per-call options accepted by methods that list a collection
+ */
+export interface ListOptions extends RequestOptions {
+  pageSize?: number; // Items per page, sent as $top (default: Graph's page size for the endpoint)
+  maxItems?: number; // Stop fetching pages once this many items were returned
+  query?: QueryInput; // Extra OData options; a $filter is combined with the method's own
+}
+
+/**
+ * URL query parameters (undefined values are left out)
+ */
+export interface QueryParams {
+  [name: string]: string | number | boolean | undefined;
+}
+
+/**
+ * Query given as an ODataQuery builder or as plain parameters
+ */
+export type QueryInput = ODataQuery | QueryParams;
+
+/**
+ * Options for a GraphClient request
+ */
+export interface GraphRequestOptions extends RequestOptions {
+  query?: QueryInput; // $select, $filter, ... ($count also sends ConsistencyLevel: eventual)
+  headers?: { [name: string]: string }; // e.g. { ConsistencyLevel: 'eventual' }
+}
+
+/**
+ * Response to a GraphClient request
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface GraphResponse<T = any> {
+  status: number;
+  headers?: { [name: string]: string };
+  data: T;
+}
+
+/**
+ * Sub-request of a JSON batch (`/$batch`)
+ */
+export interface BatchRequest {
+  id?: string; // Unique within the batch (default: assigned in order, '1', '2', ...)
+  method: string;
+  url: string; // Relative to the Graph version ('/me/messages') or an absolute Graph URL
+  body?: unknown;
+  headers?: { [name: string]: string };
+  dependsOn?: string[]; // IDs of requests that must succeed first (must be added before this one)
+}
+
+/**
+ * Response to a batch sub-request
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface BatchResponse<T = any> {
+  id: string;
+  status: number;
+  headers: { [name: string]: string };
+  body: T;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Logger used for all library output
+ * Tokens and secrets are redacted before they reach the logger
+ */
+export interface Logger {
+  debug(message: string, ...meta: unknown[]): void;
+  info(message: string, ...meta: unknown[]): void;
+  warn(message: string, ...meta: unknown[]): void;
+  error(message: string, ...meta: unknown[]): void;
+  // Optional: lets the library skip building debug output (e.g. request logging) nobody reads
+  isEnabled?(level: LogLevel): boolean;
+}
+
+/**
+ * Metadata passed to every token lifecycle hook (never contains tokens)
+ */
+export interface TokenEventInfo {
+  tenantId: string;
+  clientId: string;
+  appOnly: boolean;
+  expiresAt?: number; // Access token expiry (ms since epoch)
+  refreshTokenIssuedAt?: number; // When the current refresh token was issued, if known
+  signedInAt?: number; // When a token provider last signed the user in, if known
+}
+
+export type TokenGrantType = 'refresh_token' | 'authorization_code' | 'device_code' | 'client_credentials';
+
+export type TokenProviderKind = 'tokenProvider' | 'interactiveLogin' | 'deviceCode';
+
+export interface TokenRefreshedInfo extends TokenEventInfo {
+  grantType: TokenGrantType;
+}
+
+export interface TokenRefreshFailedInfo extends TokenEventInfo {
+  grantType: TokenGrantType;
+  error: Error;
+  status?: number; // HTTP status from the token endpoint
+  errorCode?: string; // OAuth error code, e.g. 'invalid_grant'
+}
+
+export interface ProviderInvokedInfo extends TokenEventInfo {
+  provider: TokenProviderKind;
+  reason: 'no_refresh_token' | 'refresh_failed';
+}
+
+export interface TokenPersistedInfo extends TokenEventInfo {
+  storageKey: string;
+}
+
+export interface AuthErrorInfo extends TokenEventInfo {
+  status: number; // 401 or 403
+  code?: string; // Graph error code, e.g. 'InvalidAuthenticationToken'
+  message: string;
+  requestId?: string; // Graph request-id, for support tickets
+  willRetry: boolean; // 401s are retried once after refreshing
+}
+
+/**
+ * Token lifecycle hooks
+ * Errors thrown (or rejected) by hooks are logged and never break authentication
+ */
+export interface AuthHooks {
+  // A new access token was obtained from the token endpoint
+  onTokenRefreshed?: (info: TokenRefreshedInfo) => void | Promise<void>;
+
+  // Refreshing with the refresh token (or client credentials) failed
+  onRefreshFailed?: (info: TokenRefreshFailedInfo) => void | Promise<void>;
+
+  // A token provider (custom, interactive login or device code) is about to run
+  onProviderInvoked?: (info: ProviderInvokedInfo) => void | Promise<void>;
+
+  // Credentials were written to the token store
+  onTokenPersisted?: (info: TokenPersistedInfo) => void | Promise<void>;
+
+  // A Graph request was rejected with 401 or 403
+  onAuthError?: (info: AuthErrorInfo) => void | Promise<void>;
+}
+
+/**
+ * Certificate credentials for client assertion (alternative to clientSecret)
+ * The certificate's public key must be uploaded to the app registration
+ */
+export interface ClientCertificate {
+  // PEM-encoded private key (PKCS#1 or PKCS#8)
+  privateKey: string;
+
+  // Certificate thumbprint as hex (SHA-1 as shown in the Azure portal, or SHA-256)
+  thumbprint: string;
+}
+
+/**
+ * Sign-in instructions for the device code flow
+ */
+export interface DeviceCodeInfo {
+  userCode: string;
+  verificationUri: string;
+  message: string; // Ready-to-display instructions from Azure
+  expiresIn: number; // Seconds until the code expires
+}
+
+/**
+ * Options for the built-in device code flow
+ */
+export interface DeviceCodeOptions {
+  // Called with the user code and verification URL (default: logged at info level)
+  onDeviceCode?: (info: DeviceCodeInfo) => void | Promise<void>;
+}
+
+/**
+ * Options for the built-in interactive (localhost redirect) login
+ */
+export interface InteractiveLoginOptions {
+  // Port for the localhost listener (default: 0 = random free port)
+  port?: number;
+
+  // How long to wait for the browser redirect (default: 5 minutes)
+  timeoutMs?: number;
+
+  // Called with the authorize URL, e.g. to open a browser (default: logged at info level)
+  openBrowser?: (url: string) => void | Promise<void>;
 }
 
 /**
  * Stored credentials in cross-platform storage
- * NOTE: clientSecret is NOT stored (comes from env or config)
+ * NOTE: clientSecret / clientCertificate are NOT stored (come from env or config)
  */
 export interface StoredCredentials {
   refreshToken: string;
@@ -46,9 +367,37 @@ export interface StoredCredentials {
   expiresAt?: number; // Optional because we might not know for access-token-only mode
   clientId: string; // OK to store (public)
   tenantId: string; // OK to store (public)
+  refreshTokenIssuedAt?: number; // When the refresh token was issued (ms since epoch)
+  signedInAt?: number; // When a token provider last signed the user in (ms since epoch)
   // NO clientSecret - must come from env or config
 }
 
+/**
+ * Pluggable persistence for stored credentials
+ * Keys are `{tenantId}.{clientId}`, or 'default' when tenant/client are unknown
+ */
+export interface TokenStore {
+  get(key: string): Promise<StoredCredentials | null>;
+  set(key: string, credentials: StoredCredentials): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<string[]>;
+  /**
+   * Optional cross-process lock held around token refresh and save
+   * Resolves with a release function once the lock for `key` is acquired
+   */
+  lock?(key: string): Promise<() => Promise<void>>;
+}
+
+/**
+ * Stored credentials entry as returned by listStoredCredentials()
+ */
+export interface StoredCredentialsInfo {
+  key: string;
+  tenantId?: string;
+  clientId?: string;
+  file?: string; // Only set for FileTokenStore
+}
+
 export interface Tag {
   id: string;
   displayName: string;
@@ -130,6 +479,161 @@ export interface FollowUpFlag {
   reminderDateTime?: { dateTime: string; timeZone: string };
 }
 
+/**
+ * Message or event body
+ */
+export interface ItemBody {
+  contentType: "HTML" | "Text";
+  content: string;
+}
+
+/**
+ * Attachment of a stored message (`contentBytes` is only returned for file attachments)
+ */
+export interface MessageAttachment {
+  "@odata.type"?: string;
+  id: string;
+  name: string;
+  contentType?: string;
+  size: number;
+  isInline: boolean;
+  lastModifiedDateTime?: string;
+  contentBytes?: string;
+}
+
+/**
+ * Email message as returned by Microsoft Graph
+ * Only `id` is always present; other properties depend on the `$select` of the request
+ */
+export interface Message {
+  id: string;
+  subject?: string;
+  bodyPreview?: string;
+  body?: ItemBody;
+  uniqueBody?: ItemBody;
+  from?: Recipient;
+  sender?: Recipient;
+  toRecipients?: Recipient[];
+  ccRecipients?: Recipient[];
+  bccRecipients?: Recipient[];
+  replyTo?: Recipient[];
+  receivedDateTime?: string;
+  sentDateTime?: string;
+  createdDateTime?: string;
+  lastModifiedDateTime?: string;
+  hasAttachments?: boolean;
+  attachments?: MessageAttachment[]; // Only with `includeAttachments`
+  importance?: "low" | "normal" | "high";
+  inferenceClassification?: "focused" | "other";
+  isRead?: boolean;
+  isDraft?: boolean;
+  isReadReceiptRequested?: boolean;
+  isDeliveryReceiptRequested?: boolean;
+  conversationId?: string;
+  conversationIndex?: string;
+  internetMessageId?: string;
+  internetMessageHeaders?: InternetMessageHeader[];
+  parentFolderId?: string;
+  categories?: string[];
+  flag?: FollowUpFlag;
+  changeKey?: string;
+  webLink?: string;
+}
+
+/**
+ * Options shared by the methods that read messages
+ */
+export interface MessageReadOptions {
+  select?: Array<keyof Message>; // Properties to return ($select)
+  bodyType?: "text" | "html"; // Have Graph convert `body`/`uniqueBody` (default: as stored)
+  includeAttachments?: boolean; // Expand `attachments`, file contents included
+}
+
+/**
+ * Options for Outlook.listMessages()
+ */
+export interface ListMessagesOptions extends ListOptions, MessageReadOptions {
+  folder?: MailFolderRef; // default: every folder
+  filter?: string | Filter; // $filter
+  search?: string; // $search (KQL, e.g. 'from:alerts subject:prod'); quoted for you
+  orderBy?: string; // $orderby, e.g. 'receivedDateTime desc'
+}
+
+/**
+ * Options for Outlook.getMessage()
+ */
+export interface GetMessageOptions extends RequestOptions, MessageReadOptions {}
+
+/**
+ * Options for Outlook.deleteMessages()
+ */
+export interface DeleteMessagesOptions extends RequestOptions {
+  permanent?: boolean; // Purge instead of moving to Deleted Items (default: false)
+}
+
+/**
+ * Names Graph accepts in place of the ID of a user's standard mail folders
+ */
+export type WellKnownFolderName =
+  | "inbox"
+  | "drafts"
+  | "sentitems"
+  | "deleteditems"
+  | "archive"
+  | "junkemail"
+  | "outbox"
+  | "msgfolderroot"
+  | "clutter"
+  | "conversationhistory"
+  | "recoverableitemsdeletions"
+  | "scheduled"
+  | "searchfolders";
+
+/**
+ * Mail folder as returned by Microsoft Graph
+ */
+export interface MailFolder {
+  id: string;
+  displayName: string;
+  parentFolderId?: string;
+  childFolderCount: number;
+  unreadItemCount: number;
+  totalItemCount: number;
+  isHidden?: boolean;
+}
+
+/**
+ * Mail folder in the tree returned by Outlook.getFolderTree()
+ */
+export interface MailFolderNode extends MailFolder {
+  path: string; // Display path from the mailbox root, e.g. 'Inbox/Alerts/Prod'
+  wellKnownName?: WellKnownFolderName; // Set for the standard folders ('inbox', 'archive', ...)
+  children: MailFolderNode[];
+}
+
+/**
+ * A mail folder to act on or scope to: its ID, a well-known name ('inbox'), a folder object,
+ * or a display path resolved on use ({ path: 'Inbox/Alerts/Prod' })
+ */
+export type MailFolderRef = string | { id: string } | { path: string };
+
+/**
+ * Options for listing mail folders
+ */
+export interface ListFoldersOptions extends ListOptions {
+  parent?: MailFolderRef; // List the child folders of this folder (default: top-level folders)
+  includeHidden?: boolean; // Include hidden folders (default: false)
+}
+
+/**
+ * Options for Outlook.getFolderTree()
+ */
+export interface FolderTreeOptions extends RequestOptions {
+  parent?: MailFolderRef; // Root of the tree (default: the top-level folders)
+  includeHidden?: boolean; // Include hidden folders (default: false)
+  maxDepth?: number; // Levels to load, 1 for the top level only (default: every level)
+}
+
 /**
  * Complete email payload for Microsoft Graph API
  */
@@ -159,3 +663,17 @@ export interface MailPayload {
   };
   saveToSentItems?: "true" | "false";
 }
+
+/**
+ * Kind of response to a message
+ */
+export type MailResponseAction = "reply" | "replyAll" | "forward";
+
+/**
+ * Payload of Outlook.replyToMessage(), replyAllToMessage() and forwardMessage()
+ * Give either `comment` (written above the quoted original) or `message.body` (the whole body)
+ */
+export interface ReplyPayload {
+  comment?: string;
+  message?: Partial<MailPayload["message"]>; // Recipients are added to the ones Graph fills in
+}
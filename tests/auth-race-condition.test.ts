@@ -1,10 +1,23 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { AzureAuth } from "../src/core/auth";
+import { FileTokenStore, MemoryTokenStore } from "../src/core/tokenStore";
+import { GraphAuthError } from "../src/core/errors";
+import Axon, { AxonError } from "axios-fluent";
 import fs from "fs/promises";
 import path from "path";
 import os from "os";
 
 vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any
+    ) {
+      super(message);
+    }
+  }
+
   const mockAxonInstance = {
     encodeUrl: vi.fn().mockReturnThis(),
     post: vi.fn().mockResolvedValue({
@@ -21,6 +34,7 @@ vi.mock("axios-fluent", () => {
     default: {
       new: vi.fn(() => mockAxonInstance),
     },
+    AxonError,
   };
 });
 
@@ -430,4 +444,277 @@ describe("AzureAuth - Token Storage Race Condition Fix", () => {
       expect(mockProvider).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe("Cross-Process Token Lock", () => {
+    let lockDir: string;
+
+    beforeEach(async () => {
+      lockDir = await fs.mkdtemp(path.join(os.tmpdir(), "ms-graph-lock-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(lockDir, { recursive: true, force: true });
+    });
+
+    function createExpiredAuth(store: FileTokenStore): AzureAuth {
+      const auth = new AzureAuth({
+        clientId: "lock-client",
+        clientSecret: "test-secret",
+        tenantId: "lock-tenant",
+        refreshToken: "old-refresh-token",
+        tokenStore: store,
+      });
+      (auth as any).accessToken = "old-access-token";
+      (auth as any).expiredAt = Date.now() - 1000;
+      return auth;
+    }
+
+    it("should refresh only once when two processes share the same token file", async () => {
+      const mockPost = vi.mocked(Axon.new().post);
+      mockPost.mockClear();
+      mockPost.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return {
+          status: 200,
+          data: {
+            access_token: "rotated-access-token",
+            refresh_token: "rotated-refresh-token",
+            expires_in: 3600,
+          },
+        } as any;
+      });
+
+      // Separate instances and stores stand in for separate processes
+      const first = createExpiredAuth(new FileTokenStore(lockDir));
+      const second = createExpiredAuth(new FileTokenStore(lockDir));
+
+      await Promise.all([first.checkToken(), second.checkToken()]);
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect((first as any).refreshToken).toBe("rotated-refresh-token");
+      expect((second as any).refreshToken).toBe("rotated-refresh-token");
+      expect(await second.getAccessToken()).toBe("rotated-access-token");
+
+      // Lock file is removed after the refresh
+      const files = await fs.readdir(lockDir);
+      expect(files.some((f) => f.endsWith(".lock"))).toBe(false);
+    });
+
+    it("should wait for the current lock holder to release", async () => {
+      const store = new FileTokenStore(lockDir);
+      const release = await store.lock("tenant.client");
+
+      let acquired = false;
+      const pending = store.lock("tenant.client").then((releaseSecond) => {
+        acquired = true;
+        return releaseSecond;
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect(acquired).toBe(false);
+
+      await release();
+      const releaseSecond = await pending;
+      expect(acquired).toBe(true);
+      await releaseSecond();
+    });
+
+    it("should take over a lock older than the stale threshold", async () => {
+      const store = new FileTokenStore(lockDir, { lockStaleMs: 1000 });
+      const lockPath = `${store.getFilePath("tenant.client")}.lock`;
+      await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: 0 }));
+      const past = new Date(Date.now() - 60 * 1000);
+      await fs.utimes(lockPath, past, past);
+
+      const release = await store.lock("tenant.client");
+
+      const content = JSON.parse(await fs.readFile(lockPath, "utf-8"));
+      expect(content.acquiredAt).toBeGreaterThan(0);
+      await release();
+    });
+
+    it("should take over a lock whose owner process no longer exists", async () => {
+      const store = new FileTokenStore(lockDir);
+      const lockPath = `${store.getFilePath("tenant.client")}.lock`;
+      await fs.writeFile(lockPath, JSON.stringify({ pid: 999999999, acquiredAt: Date.now() }));
+
+      const release = await store.lock("tenant.client");
+      await release();
+
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+
+    it("should time out while a live process holds the lock", async () => {
+      const store = new FileTokenStore(lockDir, { lockTimeoutMs: 200 });
+      const release = await store.lock("tenant.client");
+
+      await expect(store.lock("tenant.client")).rejects.toThrow(
+        "Timed out waiting for token lock"
+      );
+      await release();
+    });
+
+    it("should keep a long-held lock fresh so it is not taken over", async () => {
+      const holder = new FileTokenStore(lockDir, { lockStaleMs: 150 });
+      const release = await holder.lock("tenant.client");
+      await new Promise((resolve) => setTimeout(resolve, 400));
+
+      const other = new FileTokenStore(lockDir, { lockStaleMs: 150, lockTimeoutMs: 100 });
+      await expect(other.lock("tenant.client")).rejects.toThrow(
+        "Timed out waiting for token lock"
+      );
+      await release();
+    });
+
+    it("should never let a reader see a half-written token file", async () => {
+      const store = new FileTokenStore(lockDir);
+      const credentials = (i: number) => ({
+        refreshToken: `refresh-token-${i}-${"x".repeat(64 * 1024)}`,
+        clientId: "client",
+        tenantId: "tenant",
+      });
+      await store.set("tenant.client", credentials(0));
+
+      for (let i = 1; i <= 20; i++) {
+        const [, read] = await Promise.all([
+          store.set("tenant.client", credentials(i)),
+          store.get("tenant.client"),
+        ]);
+        expect(read?.refreshToken).toMatch(/^refresh-token-\d+-/);
+      }
+      expect(await fs.readdir(lockDir)).toEqual(["tokens.tenant.client.json"]);
+    });
+
+    it("should fail the refresh instead of refreshing without the lock", async () => {
+      const mockPost = vi.mocked(Axon.new().post);
+      mockPost.mockClear();
+      const store = new FileTokenStore(lockDir);
+      vi.spyOn(store, "lock").mockRejectedValue(new Error("Timed out waiting for token lock"));
+      const auth = createExpiredAuth(store);
+
+      await expect(auth.checkToken()).rejects.toThrow(
+        "Failed to acquire token store lock, token not refreshed: Timed out waiting for token lock"
+      );
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Concurrent 401 Recovery", () => {
+    let refreshCount: number;
+
+    beforeEach(() => {
+      refreshCount = 0;
+      const mockPost = vi.mocked(Axon.new().post);
+      mockPost.mockClear();
+      mockPost.mockImplementation(async () => {
+        refreshCount++;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return {
+          status: 200,
+          data: {
+            access_token: `access-token-${refreshCount}`,
+            refresh_token: `refresh-token-${refreshCount}`,
+            expires_in: 3600,
+          },
+        };
+      });
+    });
+
+    async function createSignedInAuth(): Promise<AzureAuth> {
+      const auth = new AzureAuth({
+        clientId: "retry-client",
+        clientSecret: "test-secret",
+        tenantId: "retry-tenant",
+        refreshToken: "initial-refresh-token",
+        tokenStore: new MemoryTokenStore(),
+      });
+      await auth.checkToken();
+      return auth;
+    }
+
+    // Graph call that rejects the first access token, as if it had been revoked
+    function createOperation(auth: AzureAuth) {
+      return vi.fn(async () => {
+        const token = await auth.getAccessToken();
+        if (token === "access-token-1") {
+          throw new (AxonError as any)("Unauthorized", 401);
+        }
+        return token;
+      });
+    }
+
+    it("should share one refresh and retry each concurrent request", async () => {
+      const auth = await createSignedInAuth();
+      const operations = [createOperation(auth), createOperation(auth), createOperation(auth)];
+
+      const results = await Promise.all(operations.map((operation) => auth.withRetry(operation)));
+
+      expect(results).toEqual(["access-token-2", "access-token-2", "access-token-2"]);
+      expect(refreshCount).toBe(2);
+      for (const operation of operations) {
+        expect(operation).toHaveBeenCalledTimes(2);
+      }
+    });
+
+    it("should not refresh again for a 401 that arrives after another request refreshed", async () => {
+      const auth = await createSignedInAuth();
+      let releaseSlow!: () => void;
+      const slowResponse = new Promise<void>((resolve) => (releaseSlow = resolve));
+
+      const slowOperation = vi.fn(async () => {
+        const token = await auth.getAccessToken();
+        await slowResponse;
+        if (token === "access-token-1") {
+          throw new (AxonError as any)("Unauthorized", 401);
+        }
+        return token;
+      });
+
+      const slow = auth.withRetry(slowOperation);
+      await expect(auth.withRetry(createOperation(auth))).resolves.toBe("access-token-2");
+
+      releaseSlow();
+      await expect(slow).resolves.toBe("access-token-2");
+      expect(refreshCount).toBe(2);
+      expect(slowOperation).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry each request only once", async () => {
+      const auth = await createSignedInAuth();
+      const alwaysUnauthorized = [1, 2].map(() =>
+        vi.fn(async () => {
+          throw new (AxonError as any)("Unauthorized", 401);
+        })
+      );
+
+      const results = await Promise.allSettled(
+        alwaysUnauthorized.map((operation) => auth.withRetry(operation))
+      );
+
+      for (const result of results) {
+        expect(result.status).toBe("rejected");
+        expect((result as PromiseRejectedResult).reason).toBeInstanceOf(GraphAuthError);
+      }
+      for (const operation of alwaysUnauthorized) {
+        expect(operation).toHaveBeenCalledTimes(2);
+      }
+      expect(refreshCount).toBe(2);
+    });
+
+    it("should let a later 401 refresh again once recovery has finished", async () => {
+      const auth = await createSignedInAuth();
+      await auth.withRetry(createOperation(auth));
+
+      const rejectsSecondToken = vi.fn(async () => {
+        const token = await auth.getAccessToken();
+        if (token === "access-token-2") {
+          throw new (AxonError as any)("Unauthorized", 401);
+        }
+        return token;
+      });
+
+      await expect(auth.withRetry(rejectsSecondToken)).resolves.toBe("access-token-3");
+      expect(refreshCount).toBe(3);
+    });
+  });
 });
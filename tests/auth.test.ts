@@ -1,8 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { AzureAuth } from "../src/core/auth";
+import { FileTokenStore, MemoryTokenStore } from "../src/core/tokenStore";
+import { AxonError } from "axios-fluent";
 import fs from "fs/promises";
 import path from "path";
 import os from "os";
+import crypto from "crypto";
+import { URL } from "url";
 import type { AzureConfig } from "../src/types";
 
 const mockPost = vi.fn();
@@ -12,10 +16,21 @@ const mockAxonInstance = {
 };
 
 vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any
+    ) {
+      super(message);
+    }
+  }
+
   return {
     default: {
       new: vi.fn(() => mockAxonInstance),
     },
+    AxonError,
   };
 });
 
@@ -165,14 +180,17 @@ describe("AzureAuth - Comprehensive Tests", () => {
         tenantId: "my-tenant",
       });
 
-      const storagePath = (auth as any).storagePath;
-      expect(storagePath).toContain("tokens.my-tenant.my-client.json");
+      const storageKey = (auth as any).storageKey;
+      expect(storageKey).toBe("my-tenant.my-client");
+      expect(new FileTokenStore().getFilePath(storageKey)).toContain(
+        "tokens.my-tenant.my-client.json"
+      );
     });
 
     it("should use default storage path without tenant/client", () => {
       const auth = new AzureAuth({});
-      const storagePath = (auth as any).storagePath;
-      expect(storagePath).toContain("tokens.json");
+      const storageKey = (auth as any).storageKey;
+      expect(new FileTokenStore().getFilePath(storageKey)).toContain("tokens.json");
     });
 
     it("should save credentials to storage", async () => {
@@ -189,9 +207,9 @@ describe("AzureAuth - Comprehensive Tests", () => {
 
       const auth = new AzureAuth(config);
 
-      // Ensure storage path is set correctly
-      (auth as any).updateStoragePath();
-      const actualStoragePath = (auth as any).storagePath;
+      // Ensure storage key is set correctly
+      (auth as any).updateStorageKey();
+      const actualStoragePath = new FileTokenStore().getFilePath((auth as any).storageKey);
 
       await (auth as any).saveToStorage();
 
@@ -222,8 +240,7 @@ describe("AzureAuth - Comprehensive Tests", () => {
         { mode: 0o600 }
       );
 
-      const auth = new AzureAuth();
-      (auth as any).storagePath = testStoragePath;
+      const auth = new AzureAuth({ clientId: "test-client", tenantId: "test-tenant" });
 
       const loaded = await (auth as any).loadFromStorage();
       expect(loaded).toBe(true);
@@ -231,8 +248,7 @@ describe("AzureAuth - Comprehensive Tests", () => {
     });
 
     it("should return false when loading from non-existent storage", async () => {
-      const auth = new AzureAuth();
-      (auth as any).storagePath = "/non/existent/path.json";
+      const auth = new AzureAuth({ tokenStore: new FileTokenStore("/non/existent") });
 
       const loaded = await (auth as any).loadFromStorage();
       expect(loaded).toBe(false);
@@ -426,8 +442,8 @@ describe("AzureAuth - Comprehensive Tests", () => {
         refreshToken: "test-token",
       });
 
-      // Make storage path invalid
-      (auth as any).storagePath = "/invalid/\0/path.json";
+      // Make storage directory invalid
+      (auth as any).tokenStore = new FileTokenStore("/invalid/\0/dir");
 
       // Should not throw
       await expect(
@@ -488,9 +504,7 @@ describe("AzureAuth - Comprehensive Tests", () => {
     });
 
     it("should return empty array when storage directory doesn't exist", async () => {
-      // Create temp auth to get directory
-      const auth = new AzureAuth();
-      const baseDir = (auth as any).getStorageDirectory();
+      const baseDir = FileTokenStore.getDefaultDirectory();
 
       // Temporarily rename directory if it exists
       const tempDir = baseDir + ".tmp";
@@ -515,13 +529,13 @@ describe("AzureAuth - Comprehensive Tests", () => {
   describe("Storage Path Updates", () => {
     it("should update storage path when tenant/client change", () => {
       const auth = new AzureAuth();
-      const path1 = (auth as any).storagePath;
+      const path1 = (auth as any).storageKey;
 
       (auth as any).clientId = "new-client";
       (auth as any).tenantId = "new-tenant";
-      (auth as any).updateStoragePath();
+      (auth as any).updateStorageKey();
 
-      const path2 = (auth as any).storagePath;
+      const path2 = (auth as any).storageKey;
 
       expect(path1).not.toBe(path2);
       expect(path2).toContain("new-tenant");
@@ -529,6 +543,1064 @@ describe("AzureAuth - Comprehensive Tests", () => {
     });
   });
 
+  describe("Endpoint Configuration", () => {
+    it("should default to the global cloud endpoints", () => {
+      const auth = new AzureAuth({});
+      expect(auth.getGraphBaseUrl()).toBe("https://graph.microsoft.com/v1.0");
+      expect((auth as any).authorityHost).toBe("https://login.microsoftonline.com");
+    });
+
+    it("should apply custom graph endpoint and version", () => {
+      const auth = new AzureAuth({
+        graphEndpoint: "http://localhost:4000/",
+        graphVersion: "beta",
+      });
+
+      expect(auth.getGraphBaseUrl()).toBe("http://localhost:4000/beta");
+    });
+
+    it("should copy endpoint settings from another AzureAuth instance", () => {
+      const auth1 = new AzureAuth({
+        graphEndpoint: "https://graph.microsoft.us",
+        authorityHost: "https://login.microsoftonline.us",
+      });
+
+      const auth2 = new AzureAuth(auth1);
+      expect(auth2.getGraphBaseUrl()).toBe("https://graph.microsoft.us/v1.0");
+      expect((auth2 as any).authorityHost).toBe("https://login.microsoftonline.us");
+    });
+
+    it("should use custom authority host for authorize and token requests", async () => {
+      const mockProvider = vi.fn(async (callback: string) => {
+        expect(callback).toContain(
+          "https://login.chinacloudapi.cn/test-tenant/oauth2/v2.0/authorize?"
+        );
+        return "auth-code-123";
+      });
+
+      mockPost.mockResolvedValueOnce({
+        status: 200,
+        data: {
+          access_token: "cn-access-token",
+          refresh_token: "cn-refresh-token",
+          expires_in: 3600,
+        },
+      });
+
+      const auth = new AzureAuth({
+        clientId: "test-client",
+        clientSecret: "test-secret",
+        tenantId: "test-tenant",
+        authorityHost: "https://login.chinacloudapi.cn",
+        tokenProvider: mockProvider,
+      });
+
+      vi.spyOn(auth as any, "loadFromStorage").mockResolvedValue(false);
+      await (auth as any).ensureRefreshToken();
+
+      expect(mockProvider).toHaveBeenCalled();
+      expect(mockPost).toHaveBeenLastCalledWith(
+        "https://login.chinacloudapi.cn/test-tenant/oauth2/v2.0/token",
+        expect.objectContaining({ grant_type: "authorization_code" })
+      );
+    });
+  });
+
+  describe("App-Only Mode", () => {
+    const appConfig: AzureConfig = {
+      clientId: "test-client",
+      clientSecret: "test-secret",
+      tenantId: "test-tenant",
+      appOnly: true,
+    };
+
+    beforeEach(() => {
+      mockPost.mockReset();
+    });
+
+    it("should acquire token with client credentials grant and .default scope", async () => {
+      mockPost.mockResolvedValueOnce({
+        status: 200,
+        data: { access_token: "app-access-token", expires_in: 3600 },
+      });
+
+      const auth = new AzureAuth(appConfig);
+      const token = await auth.getAccessToken();
+
+      expect(token).toBe("app-access-token");
+      expect(mockPost).toHaveBeenLastCalledWith(
+        "https://login.microsoftonline.com/test-tenant/oauth2/v2.0/token",
+        {
+          client_id: "test-client",
+          client_secret: "test-secret",
+          scope: "https://graph.microsoft.com/.default",
+          grant_type: "client_credentials",
+        }
+      );
+    });
+
+    it("should cache the app token until it expires", async () => {
+      mockPost.mockResolvedValue({
+        status: 200,
+        data: { access_token: "app-access-token", expires_in: 3600 },
+      });
+
+      const auth = new AzureAuth(appConfig);
+      await auth.checkToken();
+      await auth.checkToken();
+      expect(mockPost).toHaveBeenCalledTimes(1);
+
+      (auth as any).expiredAt = Date.now() - 1000;
+      await auth.checkToken();
+      expect(mockPost).toHaveBeenCalledTimes(2);
+    });
+
+    it("should share one token request between concurrent calls", async () => {
+      mockPost.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return {
+          status: 200,
+          data: { access_token: "app-access-token", expires_in: 3600 },
+        };
+      });
+
+      const auth = new AzureAuth(appConfig);
+      await Promise.all(Array.from({ length: 5 }, () => auth.checkToken()));
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect((auth as any).tokenRefreshPromise).toBeNull();
+    });
+
+    it("should never use the refresh token or token provider", async () => {
+      mockPost.mockResolvedValueOnce({
+        status: 200,
+        data: { access_token: "app-access-token", expires_in: 3600 },
+      });
+      const mockProvider = vi.fn(async () => "code");
+
+      const auth = new AzureAuth({ ...appConfig, tokenProvider: mockProvider });
+      const loadSpy = vi.spyOn(auth as any, "loadFromStorage");
+      await auth.checkToken();
+
+      expect(loadSpy).not.toHaveBeenCalled();
+      expect(mockProvider).not.toHaveBeenCalled();
+    });
+
+    it("should require a user ID for user paths", () => {
+      const auth = new AzureAuth(appConfig);
+
+      expect(() => auth.getUserPath()).toThrow("User ID is required in app-only mode");
+      expect(auth.getUserPath("jane@contoso.com")).toBe("/users/jane%40contoso.com");
+    });
+
+    it("should use configured user ID and fall back to /me in delegated mode", () => {
+      expect(new AzureAuth({ ...appConfig, userId: "user-1" }).getUserPath()).toBe(
+        "/users/user-1"
+      );
+      expect(new AzureAuth({}).getUserPath()).toBe("/me");
+    });
+  });
+
+  describe("Certificate Credentials", () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+    });
+    const thumbprint = "a".repeat(40);
+    const certConfig: AzureConfig = {
+      clientId: "test-client",
+      tenantId: "test-tenant",
+      clientCertificate: {
+        privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+        thumbprint,
+      },
+    };
+
+    function decodeSegment(segment: string) {
+      return JSON.parse(Buffer.from(segment, "base64url").toString());
+    }
+
+    beforeEach(() => {
+      mockPost.mockReset();
+    });
+
+    it("should accept a certificate instead of a client secret", () => {
+      const auth = new AzureAuth(certConfig);
+      expect(() => (auth as any).ensureCredentials()).not.toThrow();
+    });
+
+    it("should require either a client secret or a certificate", () => {
+      const auth = new AzureAuth({ clientId: "test-client", tenantId: "test-tenant" });
+      expect(() => (auth as any).ensureCredentials()).toThrow(
+        "clientSecret or clientCertificate"
+      );
+    });
+
+    it("should send a signed client assertion instead of the client secret", async () => {
+      mockPost.mockResolvedValueOnce({
+        status: 200,
+        data: { access_token: "new-access-token", expires_in: 3600 },
+      });
+
+      const auth = new AzureAuth({ ...certConfig, refreshToken: "test-refresh-token" });
+      await (auth as any).refreshAccessToken();
+
+      const [url, body] = mockPost.mock.calls[0];
+      expect(body.client_secret).toBeUndefined();
+      expect(body.client_assertion_type).toBe(
+        "urn:ietf:params:oauth:client-assertion-type:jwt-bearer"
+      );
+
+      const [header, payload, signature] = body.client_assertion.split(".");
+      expect(decodeSegment(header)).toEqual({
+        alg: "RS256",
+        typ: "JWT",
+        x5t: Buffer.from(thumbprint, "hex").toString("base64url"),
+      });
+      expect(decodeSegment(payload)).toMatchObject({
+        aud: url,
+        iss: "test-client",
+        sub: "test-client",
+      });
+
+      const valid = crypto
+        .createVerify("RSA-SHA256")
+        .update(`${header}.${payload}`)
+        .verify(publicKey, signature, "base64url");
+      expect(valid).toBe(true);
+    });
+
+    it("should use x5t#S256 for SHA-256 thumbprints", async () => {
+      mockPost.mockResolvedValueOnce({
+        status: 200,
+        data: { access_token: "app-access-token", expires_in: 3600 },
+      });
+
+      const auth = new AzureAuth({
+        ...certConfig,
+        clientCertificate: { ...certConfig.clientCertificate!, thumbprint: "b".repeat(64) },
+        appOnly: true,
+      });
+      await auth.checkToken();
+
+      const [, body] = mockPost.mock.calls[0];
+      const header = decodeSegment(body.client_assertion.split(".")[0]);
+      expect(header["x5t#S256"]).toBeDefined();
+      expect(header.x5t).toBeUndefined();
+    });
+
+    it("should reject an invalid thumbprint", async () => {
+      const auth = new AzureAuth({
+        ...certConfig,
+        clientCertificate: { ...certConfig.clientCertificate!, thumbprint: "not-hex" },
+        refreshToken: "test-refresh-token",
+      });
+
+      await expect((auth as any).refreshAccessToken()).rejects.toThrow(
+        "Invalid certificate thumbprint"
+      );
+    });
+  });
+
+  describe("Device Code Flow", () => {
+    const deviceCodeResponse = {
+      status: 200,
+      data: {
+        device_code: "device-code-123",
+        user_code: "ABCD-EFGH",
+        verification_uri: "https://microsoft.com/devicelogin",
+        expires_in: 900,
+        interval: 5,
+        message: "To sign in, open https://microsoft.com/devicelogin and enter ABCD-EFGH",
+      },
+    };
+
+    const pending = (error: string) =>
+      new (AxonError as any)("Bad Request", 400, { error });
+
+    function createAuth(onDeviceCode = vi.fn()) {
+      const auth = new AzureAuth({
+        clientId: "test-client",
+        clientSecret: "test-secret",
+        tenantId: "test-tenant",
+        deviceCode: { onDeviceCode },
+      });
+      vi.spyOn(auth as any, "loadFromStorage").mockResolvedValue(false);
+      vi.spyOn(auth as any, "saveToStorage").mockResolvedValue(undefined);
+      return auth;
+    }
+
+    beforeEach(() => {
+      mockPost.mockReset();
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should emit sign-in instructions and poll until authorized", async () => {
+      mockPost
+        .mockResolvedValueOnce(deviceCodeResponse)
+        .mockRejectedValueOnce(pending("authorization_pending"))
+        .mockResolvedValueOnce({
+          status: 200,
+          data: {
+            access_token: "device-access-token",
+            refresh_token: "device-refresh-token",
+            expires_in: 3600,
+          },
+        });
+
+      const onDeviceCode = vi.fn();
+      const auth = createAuth(onDeviceCode);
+
+      const promise = (auth as any).ensureRefreshToken();
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(onDeviceCode).toHaveBeenCalledWith({
+        userCode: "ABCD-EFGH",
+        verificationUri: "https://microsoft.com/devicelogin",
+        message: deviceCodeResponse.data.message,
+        expiresIn: 900,
+      });
+      expect(mockPost.mock.calls[0][0]).toBe(
+        "https://login.microsoftonline.com/test-tenant/oauth2/v2.0/devicecode"
+      );
+      expect(mockPost.mock.calls[2][1]).toMatchObject({
+        grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+        device_code: "device-code-123",
+      });
+      expect((auth as any).refreshToken).toBe("device-refresh-token");
+      expect((auth as any).accessToken).toBe("device-access-token");
+    });
+
+    it("should back off by 5 seconds on slow_down", async () => {
+      mockPost
+        .mockResolvedValueOnce(deviceCodeResponse)
+        .mockRejectedValueOnce(pending("slow_down"))
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { access_token: "a", refresh_token: "r", expires_in: 3600 },
+        });
+
+      const auth = createAuth();
+      const promise = (auth as any).ensureRefreshToken();
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(mockPost).toHaveBeenCalledTimes(2);
+
+      // Next poll waits 10 seconds instead of 5
+      await vi.advanceTimersByTimeAsync(9000);
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockPost).toHaveBeenCalledTimes(3);
+
+      await promise;
+      expect((auth as any).refreshToken).toBe("r");
+    });
+
+    it("should fail when the user declines", async () => {
+      mockPost
+        .mockResolvedValueOnce(deviceCodeResponse)
+        .mockRejectedValueOnce(pending("authorization_declined"));
+
+      const auth = createAuth();
+      const promise = (auth as any).ensureRefreshToken();
+      const assertion = expect(promise).rejects.toThrow("Device code sign-in failed");
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+
+    it("should fail when the code expires", async () => {
+      mockPost
+        .mockResolvedValueOnce({
+          ...deviceCodeResponse,
+          data: { ...deviceCodeResponse.data, expires_in: 10 },
+        })
+        .mockRejectedValue(pending("authorization_pending"));
+
+      const auth = createAuth();
+      const promise = (auth as any).ensureRefreshToken();
+      const assertion = expect(promise).rejects.toThrow("Device code expired");
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+
+    it("should print instructions to the console by default", async () => {
+      mockPost.mockResolvedValueOnce(deviceCodeResponse).mockResolvedValueOnce({
+        status: 200,
+        data: { access_token: "a", refresh_token: "r", expires_in: 3600 },
+      });
+      const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+
+      const auth = new AzureAuth({
+        clientId: "test-client",
+        clientSecret: "test-secret",
+        tenantId: "test-tenant",
+        deviceCode: true,
+      });
+      vi.spyOn(auth as any, "loadFromStorage").mockResolvedValue(false);
+      vi.spyOn(auth as any, "saveToStorage").mockResolvedValue(undefined);
+
+      const promise = (auth as any).ensureRefreshToken();
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(infoSpy).toHaveBeenCalledWith(deviceCodeResponse.data.message);
+      infoSpy.mockRestore();
+    });
+  });
+
+  describe("Interactive Login", () => {
+    const tokenResponse = {
+      status: 200,
+      data: {
+        access_token: "loopback-access-token",
+        refresh_token: "loopback-refresh-token",
+        expires_in: 3600,
+      },
+    };
+
+    function createAuth(openBrowser: (url: string) => Promise<void>) {
+      const auth = new AzureAuth({
+        clientId: "test-client",
+        clientSecret: "test-secret",
+        tenantId: "test-tenant",
+        interactiveLogin: { openBrowser, timeoutMs: 5000 },
+      });
+      vi.spyOn(auth as any, "loadFromStorage").mockResolvedValue(false);
+      vi.spyOn(auth as any, "saveToStorage").mockResolvedValue(undefined);
+      return auth;
+    }
+
+    beforeEach(() => {
+      mockPost.mockReset();
+    });
+
+    it("should capture the code on localhost and exchange it with the PKCE verifier", async () => {
+      mockPost.mockResolvedValueOnce(tokenResponse);
+
+      let authorizeUrl = "";
+      const auth = createAuth(async (url) => {
+        authorizeUrl = url;
+        const params = new URL(url).searchParams;
+        // Simulate the browser following the redirect after sign-in
+        await fetch(`${params.get("redirect_uri")}/?code=auth-code-123&state=${params.get("state")}`);
+      });
+
+      await (auth as any).ensureRefreshToken();
+
+      const params = new URL(authorizeUrl).searchParams;
+      expect(params.get("redirect_uri")).toMatch(/^http:\/\/localhost:\d+$/);
+      expect(params.get("code_challenge_method")).toBe("S256");
+      expect(params.get("state")).toBeTruthy();
+
+      const [, body] = mockPost.mock.calls[0];
+      expect(body).toMatchObject({
+        grant_type: "authorization_code",
+        code: "auth-code-123",
+        redirect_uri: params.get("redirect_uri"),
+      });
+
+      const expectedChallenge = crypto
+        .createHash("sha256")
+        .update(body.code_verifier)
+        .digest("base64url");
+      expect(params.get("code_challenge")).toBe(expectedChallenge);
+      expect((auth as any).refreshToken).toBe("loopback-refresh-token");
+    });
+
+    it("should reject a redirect with a mismatched state", async () => {
+      const auth = createAuth(async (url) => {
+        const redirectUri = new URL(url).searchParams.get("redirect_uri");
+        await fetch(`${redirectUri}/?code=auth-code-123&state=forged`);
+      });
+
+      await expect((auth as any).ensureRefreshToken()).rejects.toThrow("state mismatch");
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+
+    it("should surface errors returned in the redirect", async () => {
+      const auth = createAuth(async (url) => {
+        const params = new URL(url).searchParams;
+        await fetch(
+          `${params.get("redirect_uri")}/?error=access_denied&error_description=User+cancelled&state=${params.get("state")}`
+        );
+      });
+
+      await expect((auth as any).ensureRefreshToken()).rejects.toThrow("User cancelled");
+    });
+  });
+
+  describe("Redirect URI", () => {
+    it("should use the configured redirect URI for token provider flows", async () => {
+      mockPost.mockResolvedValueOnce({
+        status: 200,
+        data: { access_token: "a", refresh_token: "r", expires_in: 3600 },
+      });
+      const mockProvider = vi.fn(async (_callback: string) => "auth-code");
+
+      const auth = new AzureAuth({
+        clientId: "test-client",
+        clientSecret: "test-secret",
+        tenantId: "test-tenant",
+        redirectUri: "https://example.com/callback",
+        tokenProvider: mockProvider,
+      });
+      vi.spyOn(auth as any, "loadFromStorage").mockResolvedValue(false);
+      vi.spyOn(auth as any, "saveToStorage").mockResolvedValue(undefined);
+
+      await (auth as any).ensureRefreshToken();
+
+      expect(mockProvider.mock.calls[0][0]).toContain(
+        `redirect_uri=${encodeURIComponent("https://example.com/callback")}`
+      );
+      expect(mockPost).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ redirect_uri: "https://example.com/callback" })
+      );
+    });
+  });
+
+  describe("Token Stores", () => {
+    const credentials = {
+      refreshToken: "stored-token",
+      accessToken: "stored-access",
+      expiresAt: Date.now() + 3600000,
+      clientId: "store-client",
+      tenantId: "store-tenant",
+    };
+
+    it("should save and load through a memory store without touching the filesystem", async () => {
+      const store = new MemoryTokenStore();
+      const writeSpy = vi.spyOn(fs, "writeFile");
+
+      const auth1 = new AzureAuth({
+        clientId: "store-client",
+        clientSecret: "secret",
+        tenantId: "store-tenant",
+        refreshToken: "stored-token",
+        tokenStore: store,
+      });
+      await (auth1 as any).saveToStorage();
+
+      expect(writeSpy).not.toHaveBeenCalled();
+      expect(await store.list()).toEqual(["store-tenant.store-client"]);
+
+      const auth2 = new AzureAuth({
+        clientId: "store-client",
+        tenantId: "store-tenant",
+        tokenStore: store,
+      });
+      expect(await (auth2 as any).loadFromStorage()).toBe(true);
+      expect((auth2 as any).refreshToken).toBe("stored-token");
+
+      writeSpy.mockRestore();
+    });
+
+    it("should use a user-supplied adapter", async () => {
+      const adapter = {
+        get: vi.fn().mockResolvedValue(credentials),
+        set: vi.fn().mockResolvedValue(undefined),
+        delete: vi.fn().mockResolvedValue(undefined),
+        list: vi.fn().mockResolvedValue(["store-tenant.store-client"]),
+      };
+
+      const auth = new AzureAuth({
+        clientId: "store-client",
+        tenantId: "store-tenant",
+        tokenStore: adapter,
+      });
+
+      expect(await (auth as any).loadFromStorage()).toBe(true);
+      expect(adapter.get).toHaveBeenCalledWith("store-tenant.store-client");
+      expect((auth as any).refreshToken).toBe("stored-token");
+    });
+
+    it("should list and clear credentials through the given store", async () => {
+      const store = new MemoryTokenStore();
+      await store.set("tenant1.client1", credentials);
+      await store.set("tenant2.client2", credentials);
+
+      expect(await AzureAuth.listStoredCredentials(store)).toEqual([
+        { key: "tenant1.client1", tenantId: "tenant1", clientId: "client1" },
+        { key: "tenant2.client2", tenantId: "tenant2", clientId: "client2" },
+      ]);
+
+      await AzureAuth.clearStoredCredentials("tenant1", "client1", store);
+      expect(await store.list()).toEqual(["tenant2.client2"]);
+
+      await AzureAuth.clearStoredCredentials(undefined, undefined, store);
+      expect(await store.list()).toEqual([]);
+    });
+
+    it("should use the global instance's store by default", async () => {
+      const store = new MemoryTokenStore();
+      await store.set("global-tenant.global-client", credentials);
+      AzureAuth.setGlobalConfig({ tokenStore: store });
+
+      const stored = await AzureAuth.listStoredCredentials();
+      expect(stored.map((c) => c.key)).toEqual(["global-tenant.global-client"]);
+    });
+
+    it("should return copies from the memory store", async () => {
+      const store = new MemoryTokenStore();
+      await store.set("key", credentials);
+
+      const loaded = await store.get("key");
+      loaded!.refreshToken = "mutated";
+
+      expect((await store.get("key"))!.refreshToken).toBe("stored-token");
+    });
+  });
+
+  describe("Token Encryption", () => {
+    const credentials = {
+      refreshToken: "secret-refresh-token",
+      accessToken: "secret-access-token",
+      expiresAt: Date.now() + 3600000,
+      clientId: "enc-client",
+      tenantId: "enc-tenant",
+    };
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ms-graph-devtools-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should encrypt token files and read them back", async () => {
+      const store = new FileTokenStore(tempDir, { encryptionKey: "passphrase" });
+      await store.set("enc-tenant.enc-client", credentials);
+
+      const raw = await fs.readFile(store.getFilePath("enc-tenant.enc-client"), "utf-8");
+      expect(raw).not.toContain("secret-refresh-token");
+      expect(JSON.parse(raw)).toMatchObject({ encrypted: true, algorithm: "aes-256-gcm" });
+
+      expect(await store.get("enc-tenant.enc-client")).toEqual(credentials);
+    });
+
+    it("should migrate existing plaintext files on first read", async () => {
+      await new FileTokenStore(tempDir).set("enc-tenant.enc-client", credentials);
+
+      const store = new FileTokenStore(tempDir, { encryptionKey: "passphrase" });
+      expect(await store.get("enc-tenant.enc-client")).toEqual(credentials);
+
+      const raw = await fs.readFile(store.getFilePath("enc-tenant.enc-client"), "utf-8");
+      expect(raw).not.toContain("secret-refresh-token");
+    });
+
+    it("should fail with a clear error when the key is wrong", async () => {
+      await new FileTokenStore(tempDir, { encryptionKey: "right" }).set(
+        "enc-tenant.enc-client",
+        credentials
+      );
+
+      const auth = new AzureAuth({
+        clientId: "enc-client",
+        tenantId: "enc-tenant",
+        tokenStore: new FileTokenStore(tempDir, { encryptionKey: "wrong" }),
+      });
+
+      await expect((auth as any).loadFromStorage()).rejects.toThrow(
+        "encryption key is wrong"
+      );
+    });
+
+    it("should fail with a clear error when the key is missing", async () => {
+      await new FileTokenStore(tempDir, { encryptionKey: "right" }).set(
+        "enc-tenant.enc-client",
+        credentials
+      );
+
+      await expect(new FileTokenStore(tempDir).get("enc-tenant.enc-client")).rejects.toThrow(
+        "no encryption key was provided"
+      );
+    });
+
+    it("should read the key from the environment", async () => {
+      process.env.MS_GRAPH_TOKEN_ENCRYPTION_KEY = "env-passphrase";
+      const store = new FileTokenStore(tempDir);
+      await store.set("enc-tenant.enc-client", credentials);
+
+      const raw = await fs.readFile(store.getFilePath("enc-tenant.enc-client"), "utf-8");
+      expect(JSON.parse(raw).encrypted).toBe(true);
+    });
+
+    it("should apply tokenEncryptionKey to the default file store", () => {
+      const auth = new AzureAuth({ tokenEncryptionKey: "passphrase" });
+      expect((auth as any).tokenStore).toBeInstanceOf(FileTokenStore);
+      expect((auth as any).tokenStore.encryptionKey).toBe("passphrase");
+    });
+  });
+
+  describe("Lifecycle Hooks", () => {
+    const baseConfig = {
+      clientId: "hook-client",
+      clientSecret: "hook-secret",
+      tenantId: "hook-tenant",
+    };
+
+    const tokenResponse = {
+      status: 200,
+      data: {
+        access_token: "new-access-token",
+        refresh_token: "new-refresh-token",
+        expires_in: 3600,
+      },
+    };
+
+    beforeEach(() => {
+      mockPost.mockReset();
+    });
+
+    it("should emit onTokenRefreshed and onTokenPersisted without tokens", async () => {
+      mockPost.mockResolvedValueOnce(tokenResponse);
+      const onTokenRefreshed = vi.fn();
+      const onTokenPersisted = vi.fn();
+
+      const auth = new AzureAuth({
+        ...baseConfig,
+        refreshToken: "old-refresh-token",
+        tokenStore: new MemoryTokenStore(),
+        hooks: { onTokenRefreshed, onTokenPersisted },
+      });
+      (auth as any).expiredAt = Date.now() - 1000;
+      await auth.checkToken();
+
+      expect(onTokenRefreshed).toHaveBeenCalledTimes(1);
+      const info = onTokenRefreshed.mock.calls[0][0];
+      expect(info).toMatchObject({
+        tenantId: "hook-tenant",
+        clientId: "hook-client",
+        appOnly: false,
+        grantType: "refresh_token",
+      });
+      expect(info.expiresAt).toBeGreaterThan(Date.now());
+      expect(info.refreshTokenIssuedAt).toBeLessThanOrEqual(Date.now());
+
+      expect(onTokenPersisted).toHaveBeenCalledWith(
+        expect.objectContaining({ storageKey: "hook-tenant.hook-client" })
+      );
+
+      const serialized = JSON.stringify([
+        ...onTokenRefreshed.mock.calls,
+        ...onTokenPersisted.mock.calls,
+      ]);
+      expect(serialized).not.toContain("new-access-token");
+      expect(serialized).not.toContain("new-refresh-token");
+      expect(serialized).not.toContain("hook-secret");
+    });
+
+    it("should emit onAuthError, onRefreshFailed and onProviderInvoked when recovering from a 401", async () => {
+      mockPost
+        .mockRejectedValueOnce(
+          new AxonError("Bad Request", 400, { error: "invalid_grant" })
+        )
+        .mockResolvedValueOnce(tokenResponse);
+      const hooks = {
+        onAuthError: vi.fn(),
+        onRefreshFailed: vi.fn(),
+        onProviderInvoked: vi.fn(),
+        onTokenRefreshed: vi.fn(),
+      };
+
+      const auth = new AzureAuth({
+        ...baseConfig,
+        refreshToken: "revoked-refresh-token",
+        tokenProvider: async () => "auth-code",
+        tokenStore: new MemoryTokenStore(),
+        hooks,
+      });
+
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(new AxonError("Unauthorized", 401))
+        .mockResolvedValueOnce("ok");
+      await expect(auth.withRetry(operation)).resolves.toBe("ok");
+
+      expect(hooks.onAuthError).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401, willRetry: true })
+      );
+      expect(hooks.onRefreshFailed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          grantType: "refresh_token",
+          status: 400,
+          errorCode: "invalid_grant",
+        })
+      );
+      expect(hooks.onProviderInvoked).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: "tokenProvider", reason: "refresh_failed" })
+      );
+      expect(hooks.onTokenRefreshed).toHaveBeenCalledWith(
+        expect.objectContaining({ grantType: "authorization_code" })
+      );
+    });
+
+    it("should pass onAuthError the error details without the request or its token", async () => {
+      const onAuthError = vi.fn();
+      const auth = new AzureAuth({ accessToken: "secret-access-token", hooks: { onAuthError } });
+      const forbidden = new AxonError("Forbidden", 403, {
+        error: {
+          code: "Authorization_RequestDenied",
+          message: "Insufficient privileges",
+          innerError: { "request-id": "req-403" },
+        },
+      });
+      (forbidden as any).config = { headers: { Authorization: "Bearer secret-access-token" } };
+
+      await expect(auth.withRetry(vi.fn().mockRejectedValue(forbidden))).rejects.toThrow(
+        "Permission denied"
+      );
+
+      const info = onAuthError.mock.calls[0][0];
+      expect(info).toMatchObject({
+        status: 403,
+        code: "Authorization_RequestDenied",
+        requestId: "req-403",
+        willRetry: false,
+      });
+      expect(info.message).toContain("Insufficient privileges");
+      expect(info).not.toHaveProperty("error");
+      expect(JSON.stringify(info)).not.toContain("secret-access-token");
+    });
+
+    it("should record the sign-in time when the provider runs and persist it", async () => {
+      mockPost.mockResolvedValueOnce(tokenResponse);
+      const onProviderInvoked = vi.fn();
+      const store = new MemoryTokenStore();
+
+      const auth = new AzureAuth({
+        ...baseConfig,
+        tokenProvider: async () => "auth-code",
+        tokenStore: store,
+        hooks: { onProviderInvoked },
+      });
+      await auth.checkToken();
+
+      expect(onProviderInvoked).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: "tokenProvider", reason: "no_refresh_token" })
+      );
+
+      const stored = await store.get("hook-tenant.hook-client");
+      expect(stored!.signedInAt).toBeLessThanOrEqual(Date.now());
+      expect(stored!.refreshTokenIssuedAt).toBe(stored!.signedInAt);
+    });
+
+    it("should emit onTokenRefreshed for app-only tokens", async () => {
+      mockPost.mockResolvedValueOnce({
+        status: 200,
+        data: { access_token: "app-access-token", expires_in: 3600 },
+      });
+      const onTokenRefreshed = vi.fn();
+
+      const auth = new AzureAuth({ ...baseConfig, appOnly: true, hooks: { onTokenRefreshed } });
+      await auth.checkToken();
+
+      expect(onTokenRefreshed).toHaveBeenCalledWith(
+        expect.objectContaining({ appOnly: true, grantType: "client_credentials" })
+      );
+    });
+
+    it("should not let failing hooks break authentication", async () => {
+      mockPost.mockResolvedValueOnce(tokenResponse);
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const auth = new AzureAuth({
+        ...baseConfig,
+        refreshToken: "old-refresh-token",
+        tokenStore: new MemoryTokenStore(),
+        hooks: {
+          onTokenRefreshed: () => {
+            throw new Error("hook exploded");
+          },
+          onTokenPersisted: async () => {
+            throw new Error("async hook exploded");
+          },
+        },
+      });
+      (auth as any).expiredAt = Date.now() - 1000;
+
+      await expect(auth.checkToken()).resolves.toBeUndefined();
+      expect(await auth.getAccessToken()).toBe("new-access-token");
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(warnSpy).toHaveBeenCalledWith("onTokenRefreshed hook failed:", expect.any(Error));
+      expect(warnSpy).toHaveBeenCalledWith("onTokenPersisted hook failed:", expect.any(Error));
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe("Proactive Refresh", () => {
+    let baseConfig: AzureConfig;
+
+    const tokenResponse = {
+      status: 200,
+      data: {
+        access_token: "renewed-access-token",
+        refresh_token: "renewed-refresh-token",
+        expires_in: 3600,
+      },
+    };
+
+    beforeEach(() => {
+      baseConfig = {
+        clientId: "skew-client",
+        clientSecret: "skew-secret",
+        tenantId: "skew-tenant",
+        refreshToken: "skew-refresh-token",
+        tokenStore: new MemoryTokenStore(),
+      };
+      mockPost.mockReset();
+      mockPost.mockResolvedValue(tokenResponse);
+    });
+
+    function withAccessToken(auth: AzureAuth, expiresInMs: number): AzureAuth {
+      (auth as any).accessToken = "current-access-token";
+      (auth as any).expiredAt = Date.now() + expiresInMs;
+      return auth;
+    }
+
+    it("should refresh a token that expires within the default 5 minute skew", async () => {
+      const auth = withAccessToken(new AzureAuth(baseConfig), 60 * 1000);
+      await auth.checkToken();
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(await auth.getAccessToken()).toBe("renewed-access-token");
+    });
+
+    it("should not refresh a token outside the skew", async () => {
+      const auth = withAccessToken(new AzureAuth(baseConfig), 10 * 60 * 1000);
+      await auth.checkToken();
+
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+
+    it("should honor a custom expiry skew", async () => {
+      const auth = withAccessToken(new AzureAuth({ ...baseConfig, expirySkewMs: 0 }), 60 * 1000);
+      await auth.checkToken();
+      expect(mockPost).not.toHaveBeenCalled();
+
+      const earlyAuth = withAccessToken(
+        new AzureAuth({ ...baseConfig, expirySkewMs: 15 * 60 * 1000 }),
+        10 * 60 * 1000
+      );
+      await earlyAuth.checkToken();
+      expect(mockPost).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refresh up front when only a refresh token is available", async () => {
+      const auth = new AzureAuth(baseConfig);
+      await auth.checkToken();
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(await auth.getAccessToken()).toBe("renewed-access-token");
+    });
+
+    it("should apply the skew to app-only tokens", async () => {
+      mockPost.mockResolvedValue({
+        status: 200,
+        data: { access_token: "app-access-token", expires_in: 3600 },
+      });
+      const auth = new AzureAuth({ ...baseConfig, appOnly: true });
+      await auth.checkToken();
+
+      (auth as any).expiredAt = Date.now() + 60 * 1000;
+      await auth.checkToken();
+      expect(mockPost).toHaveBeenCalledTimes(2);
+    });
+
+    describe("Background refresh", () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it("should renew ahead of expiry until stopped", async () => {
+        const auth = new AzureAuth(baseConfig);
+        auth.startBackgroundRefresh();
+        expect(auth.isBackgroundRefreshActive()).toBe(true);
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(mockPost).toHaveBeenCalledTimes(1);
+
+        // Next renewal 5 minutes before the 1 hour expiry
+        await vi.advanceTimersByTimeAsync(54 * 60 * 1000);
+        expect(mockPost).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+        expect(mockPost).toHaveBeenCalledTimes(2);
+
+        auth.stopBackgroundRefresh();
+        expect(auth.isBackgroundRefreshActive()).toBe(false);
+        expect(vi.getTimerCount()).toBe(0);
+
+        await vi.advanceTimersByTimeAsync(2 * 60 * 60 * 1000);
+        expect(mockPost).toHaveBeenCalledTimes(2);
+      });
+
+      it("should retry after a failed renewal", async () => {
+        const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+        mockPost.mockRejectedValueOnce(new Error("network down"));
+
+        const auth = new AzureAuth(baseConfig);
+        auth.startBackgroundRefresh();
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(mockPost).toHaveBeenCalledTimes(1);
+        expect(errorSpy).toHaveBeenCalledWith(
+          "Background token refresh failed, will retry:",
+          expect.any(Error)
+        );
+
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+        expect(mockPost).toHaveBeenCalledTimes(2);
+        expect(await auth.getAccessToken()).toBe("renewed-access-token");
+
+        auth.stopBackgroundRefresh();
+        errorSpy.mockRestore();
+      });
+
+      it("should keep a single loop when restarted while a renewal is running", async () => {
+        let finishRefresh: (value: unknown) => void = () => {};
+        mockPost.mockImplementationOnce(() => new Promise((resolve) => (finishRefresh = resolve)));
+
+        const auth = new AzureAuth(baseConfig);
+        auth.startBackgroundRefresh();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(mockPost).toHaveBeenCalledTimes(1);
+
+        auth.stopBackgroundRefresh();
+        auth.startBackgroundRefresh();
+        await vi.advanceTimersByTimeAsync(0);
+
+        finishRefresh({
+          status: 200,
+          data: { access_token: "renewed-access-token", expires_in: 3600 },
+        });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(vi.getTimerCount()).toBe(1);
+
+        auth.stopBackgroundRefresh();
+        expect(vi.getTimerCount()).toBe(0);
+      });
+
+      it("should not start in access-token-only mode", () => {
+        const auth = new AzureAuth({ accessToken: "temporary-token" });
+
+        expect(() => auth.startBackgroundRefresh()).toThrow(
+          "Background refresh is not available in access-token-only mode"
+        );
+      });
+    });
+  });
+
   describe("Configuration Edge Cases", () => {
     it("should handle empty config object", () => {
       const auth = new AzureAuth({});
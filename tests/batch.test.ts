@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AzureAuth } from "../src/core/auth";
+import { GraphBatch } from "../src/core/batch";
+import { GraphNotFoundError, GraphThrottledError } from "../src/core/errors";
+import { SilentLogger } from "../src/core/logger";
+import { Outlook } from "../src/services/Outlook";
+import { SharePoint } from "../src/services/SharePoint";
+
+const mockPost = vi.fn();
+const mockAxonInstance = {
+  bearer: vi.fn().mockReturnThis(),
+  post: mockPost,
+};
+
+vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any
+    ) {
+      super(message);
+    }
+  }
+
+  return {
+    default: {
+      new: vi.fn(() => mockAxonInstance),
+    },
+    AxonError,
+  };
+});
+
+type SubRequest = { id: string; method: string; url: string; dependsOn?: string[] };
+
+// Answers every sub-request with 200 unless `respond` returns something else
+function mockBatchEndpoint(respond: (request: SubRequest) => any = () => undefined) {
+  mockPost.mockImplementation(async (_url: string, body: { requests: SubRequest[] }) => ({
+    status: 200,
+    data: {
+      responses: body.requests.map((request) => ({
+        id: request.id,
+        status: 200,
+        headers: {},
+        body: { echo: request.url },
+        ...respond(request),
+      })),
+    },
+  }));
+}
+
+function sentRequests(call: number): SubRequest[] {
+  return mockPost.mock.calls[call][1].requests;
+}
+
+describe("GraphBatch", () => {
+  let auth: AzureAuth;
+
+  beforeEach(() => {
+    mockPost.mockReset();
+    auth = new AzureAuth({ accessToken: "token", logger: new SilentLogger(), rateLimit: false });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should send requests to /$batch and resolve each one with its own response", async () => {
+    mockBatchEndpoint();
+    const batch = auth.batch();
+
+    const me = batch.add({ method: "GET", url: "/me" });
+    const teams = batch.add({ method: "get", url: "https://graph.microsoft.com/v1.0/me/joinedTeams" });
+    const responses = await batch.execute();
+
+    expect(mockPost).toHaveBeenCalledWith("https://graph.microsoft.com/v1.0/$batch", {
+      requests: [
+        { id: "1", method: "GET", url: "/me" },
+        { id: "2", method: "GET", url: "/me/joinedTeams" },
+      ],
+    });
+    expect((await me).body).toEqual({ echo: "/me" });
+    expect((await teams).body).toEqual({ echo: "/me/joinedTeams" });
+    expect(responses.map((response) => response.id)).toEqual(["1", "2"]);
+    expect(batch.size).toBe(0);
+  });
+
+  it("should split more than 20 requests into several batches", async () => {
+    mockBatchEndpoint();
+    const batch = auth.batch();
+
+    const results = Array.from({ length: 45 }, (_, i) =>
+      batch.add({ method: "DELETE", url: `/items/${i}` })
+    );
+    await batch.execute();
+
+    expect(mockPost).toHaveBeenCalledTimes(3);
+    expect([0, 1, 2].map((call) => sentRequests(call).length)).toEqual([20, 20, 5]);
+    expect((await results[44]).body).toEqual({ echo: "/items/44" });
+  });
+
+  it("should keep dependsOn chains in the same batch", async () => {
+    mockBatchEndpoint();
+    const batch = auth.batch();
+
+    for (let i = 0; i < 18; i++) {
+      batch.add({ method: "GET", url: `/items/${i}` });
+    }
+    batch.add({ id: "create", method: "POST", url: "/items", body: { title: "A" } });
+    batch.add({ id: "update", method: "PATCH", url: "/items/a", body: {}, dependsOn: ["create"] });
+    batch.add({ id: "read", method: "GET", url: "/items/a", dependsOn: ["update"] });
+    await batch.execute();
+
+    expect(sentRequests(0)).toHaveLength(18);
+    expect(sentRequests(1)).toEqual([
+      {
+        id: "create",
+        method: "POST",
+        url: "/items",
+        body: { title: "A" },
+        headers: { "Content-Type": "application/json" },
+      },
+      {
+        id: "update",
+        method: "PATCH",
+        url: "/items/a",
+        body: {},
+        headers: { "Content-Type": "application/json" },
+        dependsOn: ["create"],
+      },
+      { id: "read", method: "GET", url: "/items/a", dependsOn: ["update"] },
+    ]);
+  });
+
+  it("should reject failed sub-requests with typed errors", async () => {
+    mockBatchEndpoint((request) =>
+      request.url === "/missing"
+        ? {
+            status: 404,
+            headers: { "request-id": "sub-req" },
+            body: { error: { code: "itemNotFound", message: "Gone" } },
+          }
+        : undefined
+    );
+    const batch = auth.batch();
+
+    const ok = batch.add({ method: "GET", url: "/me" });
+    const missing = batch.add({ method: "GET", url: "/missing" });
+    const responses = await batch.execute();
+
+    await expect(ok).resolves.toMatchObject({ status: 200 });
+    const error = await missing.catch((e) => e);
+    expect(error).toBeInstanceOf(GraphNotFoundError);
+    expect(error.code).toBe("itemNotFound");
+    expect(error.requestId).toBe("sub-req");
+    expect(responses.map((response) => response.status)).toEqual([200, 404]);
+  });
+
+  it("should resend only throttled sub-requests after Retry-After", async () => {
+    vi.useFakeTimers();
+    const onThrottled = vi.fn();
+    let throttled = true;
+    mockBatchEndpoint((request) => {
+      if (request.url === "/busy" && throttled) {
+        throttled = false;
+        return { status: 429, headers: { "Retry-After": "3" }, body: {} };
+      }
+    });
+
+    const batch = new GraphBatch(auth, { retry: { onThrottled } });
+    const busy = batch.add({ method: "POST", url: "/busy", body: {} });
+    batch.add({ method: "GET", url: "/me" });
+    const pending = batch.execute();
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(mockPost).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    expect(sentRequests(1).map((request) => request.url)).toEqual(["/busy"]);
+    await expect(busy).resolves.toMatchObject({ status: 200 });
+    expect(onThrottled).toHaveBeenCalledWith(
+      expect.objectContaining({ url: "/busy", status: 429, retryAfter: 3, willRetry: true })
+    );
+  });
+
+  it("should give up on throttled sub-requests after maxAttempts", async () => {
+    vi.useFakeTimers();
+    mockBatchEndpoint(() => ({ status: 429, headers: { "Retry-After": "1" }, body: {} }));
+
+    const batch = auth.batch({ retry: { maxAttempts: 2 } });
+    const result = batch.add({ method: "GET", url: "/me" });
+    const pending = batch.execute();
+    await vi.runAllTimersAsync();
+    await pending;
+
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    await expect(result).rejects.toBeInstanceOf(GraphThrottledError);
+  });
+
+  it("should not resend non-idempotent requests that failed with 503", async () => {
+    mockBatchEndpoint(() => ({ status: 503, body: {} }));
+    const batch = auth.batch();
+
+    const result = batch.add({ method: "POST", url: "/me/sendMail", body: {} });
+    await batch.execute();
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    await expect(result).rejects.toThrow("Microsoft server error (503)");
+  });
+
+  it("should validate requests as they are added", () => {
+    const batch = auth.batch();
+    batch.add({ id: "a", method: "GET", url: "/me" });
+
+    expect(() => batch.add({ id: "a", method: "GET", url: "/me" })).toThrow(
+      "Duplicate batch request id: a"
+    );
+    expect(() => batch.add({ method: "GET", url: "/me", dependsOn: ["b"] })).toThrow(
+      'depends on unknown request "b"'
+    );
+    expect(() => batch.add({ method: "GET", url: "https://example.com/me" })).toThrow(
+      "Batch request URL must be under https://graph.microsoft.com/v1.0"
+    );
+  });
+
+  it("should reject every request when a dependsOn chain is longer than 20", async () => {
+    const batch = auth.batch();
+    const results = [batch.add({ id: "0", method: "GET", url: "/a" })];
+    for (let i = 1; i <= 20; i++) {
+      results.push(batch.add({ id: String(i), method: "GET", url: "/a", dependsOn: [String(i - 1)] }));
+    }
+
+    await expect(batch.execute()).rejects.toThrow("cannot exceed 20 (got 21)");
+    await expect(results[0]).rejects.toThrow("cannot exceed 20");
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it("should reject unanswered requests when the batch call fails", async () => {
+    const failure = new Error("socket hang up");
+    mockPost.mockRejectedValue(failure);
+    const batch = auth.batch();
+
+    const result = batch.add({ method: "GET", url: "/me" });
+
+    await expect(batch.execute()).rejects.toBe(failure);
+    await expect(result).rejects.toBe(failure);
+  });
+
+  describe("Service methods", () => {
+    it("should queue SharePoint and Outlook calls into the batch", async () => {
+      mockBatchEndpoint((request) =>
+        request.method === "POST" && request.url.endsWith("/items")
+          ? { status: 201, body: { id: "new-item" } }
+          : { status: 204, body: undefined }
+      );
+      const sharepoint = new SharePoint(auth, "site-123");
+      const outlook = new Outlook(auth);
+      const batch = auth.batch();
+
+      const created = sharepoint.createListItem("Tasks", { Title: "A" }, undefined, { batch });
+      const deleted = sharepoint.deleteListItem("Tasks", "7", undefined, { batch });
+      const sent = outlook.sendMail({ message: { subject: "Hi" } } as any, { batch });
+      await batch.execute();
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(sentRequests(0).map(({ method, url }) => `${method} ${url}`)).toEqual([
+        "POST /sites/site-123/lists/Tasks/items",
+        "DELETE /sites/site-123/lists/Tasks/items/7",
+        "POST /me/sendMail",
+      ]);
+      await expect(created).resolves.toEqual({ id: "new-item" });
+      await expect(deleted).resolves.toBeUndefined();
+      await expect(sent).resolves.toMatchObject({ status: 204 });
+    });
+
+    it("should batch bulk deletes", async () => {
+      mockBatchEndpoint(() => ({ status: 204, body: undefined }));
+      const sharepoint = new SharePoint(auth, "site-123");
+      const batch = auth.batch();
+
+      const itemIds = Array.from({ length: 30 }, (_, i) => String(i));
+      const deleted = sharepoint.deleteListItems("Tasks", itemIds, undefined, { batch });
+      await batch.execute();
+      await deleted;
+
+      expect(mockPost).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AzureAuth } from "../src/core/auth";
+import { RequestAbortedError, RequestTimeoutError, withCancellation } from "../src/core/cancellation";
+import { GraphClient } from "../src/core/client";
+import { SilentLogger } from "../src/core/logger";
+import { RequestScheduler } from "../src/core/scheduler";
+import { MemoryTokenStore } from "../src/core/tokenStore";
+import { SharePoint } from "../src/services/SharePoint";
+import { AxonError } from "axios-fluent";
+
+const mockGet = vi.fn();
+const mockPost = vi.fn();
+const mockAxonInstance = {
+  bearer: vi.fn().mockReturnThis(),
+  params: vi.fn().mockReturnThis(),
+  encodeUrl: vi.fn().mockReturnThis(),
+  get: mockGet,
+  post: mockPost,
+};
+
+vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any,
+      public headers?: { [key: string]: string }
+    ) {
+      super(message);
+    }
+  }
+
+  return {
+    default: {
+      new: vi.fn(() => mockAxonInstance),
+    },
+    AxonError,
+  };
+});
+
+const BASE_URL = "https://graph.microsoft.com/v1.0";
+
+// A request that never answers
+const hang = () => new Promise(() => {});
+
+describe("Cancellation", () => {
+  let auth: AzureAuth;
+  let graph: GraphClient;
+
+  beforeEach(() => {
+    mockGet.mockReset();
+    mockPost.mockReset();
+    auth = new AzureAuth({ accessToken: "token", logger: new SilentLogger(), rateLimit: false });
+    graph = new GraphClient(auth);
+  });
+
+  afterEach(() => {
+    AzureAuth.reset();
+  });
+
+  describe("withCancellation()", () => {
+    it("should pass the combined signal down without the timeout", async () => {
+      const controller = new AbortController();
+
+      const options = await withCancellation(
+        { signal: controller.signal, timeoutMs: 1000, retry: false as const },
+        async (inner) => inner
+      );
+
+      expect(options.retry).toBe(false);
+      expect(options.timeoutMs).toBeUndefined();
+      expect(options.signal).toBeInstanceOf(AbortSignal);
+      expect(options.signal).not.toBe(controller.signal);
+    });
+
+    it("should keep the caller's abort reason as the cause", async () => {
+      const controller = new AbortController();
+      const pending = withCancellation({ signal: controller.signal }, hang);
+
+      controller.abort("shutting down");
+
+      const error = await pending.catch((e) => e);
+      expect(error).toBeInstanceOf(RequestAbortedError);
+      expect(error).not.toBeInstanceOf(RequestTimeoutError);
+      expect(error.cause).toBe("shutting down");
+    });
+  });
+
+  describe("GraphClient requests", () => {
+    it("should reject a hung request with RequestTimeoutError after timeoutMs", async () => {
+      mockGet.mockImplementation(hang);
+
+      const error = await graph.get("/me", { timeoutMs: 20 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RequestTimeoutError);
+      expect(error.timeoutMs).toBe(20);
+      expect(error.message).toBe("Request timed out after 20ms");
+    });
+
+    it("should not send anything when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(graph.get("/me", { signal: controller.signal })).rejects.toBeInstanceOf(
+        RequestAbortedError
+      );
+      expect(mockGet).not.toHaveBeenCalled();
+    });
+
+    it("should stop backing off from a 429 once aborted", async () => {
+      mockGet.mockRejectedValue(
+        new (AxonError as any)("Too Many Requests", 429, {}, { "Retry-After": "60" })
+      );
+      const controller = new AbortController();
+
+      const pending = graph.get("/me", { signal: controller.signal });
+      await vi.waitFor(() => expect(mockGet).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(mockGet).toHaveBeenCalledTimes(1);
+    });
+
+    it("should time out a hung token refresh", async () => {
+      const refreshingAuth = new AzureAuth({
+        clientId: "client",
+        clientSecret: "secret",
+        tenantId: "tenant",
+        refreshToken: "refresh-token",
+        tokenStore: new MemoryTokenStore(),
+        logger: new SilentLogger(),
+        rateLimit: false,
+      });
+      mockPost.mockImplementation(hang);
+      const client = new GraphClient(refreshingAuth);
+
+      await expect(client.get("/me", { timeoutMs: 20 })).rejects.toBeInstanceOf(
+        RequestTimeoutError
+      );
+      expect(mockGet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Paging", () => {
+    it("should stop fetching pages once the signal aborts", async () => {
+      mockGet.mockResolvedValue({
+        status: 200,
+        data: { value: [{ id: "1" }], "@odata.nextLink": `${BASE_URL}/next` },
+      });
+      const controller = new AbortController();
+
+      const ids: string[] = [];
+      const iterate = async () => {
+        for await (const item of graph.paginate("/me/messages", { signal: controller.signal })) {
+          ids.push(item.id);
+          if (ids.length === 2) {
+            controller.abort();
+          }
+        }
+      };
+
+      await expect(iterate()).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(ids).toEqual(["1", "1"]);
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it("should apply timeoutMs to the whole iteration", async () => {
+      mockGet
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { value: [{ id: "1" }], "@odata.nextLink": `${BASE_URL}/next` },
+        })
+        .mockImplementation(hang);
+      const sharepoint = new SharePoint(auth, "site-123");
+
+      const error = await sharepoint
+        .getListItems("Tasks", {}, undefined, { timeoutMs: 20 })
+        .collect()
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(RequestTimeoutError);
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("RequestScheduler", () => {
+    it("should drop a queued request when its signal aborts", async () => {
+      const scheduler = new RequestScheduler({ requestsPerSecond: 0, maxConcurrent: 1 });
+      const controller = new AbortController();
+      const task = vi.fn(async () => "done");
+
+      void scheduler.schedule(() => new Promise<string>(() => {}));
+      const queued = scheduler.schedule(task, controller.signal);
+      expect(scheduler.getStats()).toEqual({ active: 1, queued: 1 });
+
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(scheduler.getStats()).toEqual({ active: 1, queued: 0 });
+      expect(task).not.toHaveBeenCalled();
+    });
+  });
+});
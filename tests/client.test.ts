@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Readable } from "stream";
+import { AzureAuth } from "../src/core/auth";
+import { GraphClient } from "../src/core/client";
+import { GraphAuthError, GraphNotFoundError } from "../src/core/errors";
+import { SilentLogger } from "../src/core/logger";
+import { MemoryTokenStore } from "../src/core/tokenStore";
+import { AxonError } from "axios-fluent";
+
+const mockAxonInstance = {
+  bearer: vi.fn().mockReturnThis(),
+  params: vi.fn().mockReturnThis(),
+  headers: vi.fn().mockReturnThis(),
+  encodeUrl: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  post: vi.fn(),
+  put: vi.fn(),
+  patch: vi.fn(),
+  delete: vi.fn(),
+};
+
+vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any
+    ) {
+      super(message);
+    }
+  }
+
+  return {
+    default: {
+      new: vi.fn(() => mockAxonInstance),
+    },
+    AxonError,
+  };
+});
+
+describe("GraphClient", () => {
+  let auth: AzureAuth;
+  let graph: GraphClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    auth = new AzureAuth({ accessToken: "token", logger: new SilentLogger(), rateLimit: false });
+    graph = new GraphClient(auth);
+  });
+
+  afterEach(() => {
+    AzureAuth.reset();
+  });
+
+  it("should resolve paths against the Graph base URL", () => {
+    expect(graph.url("/me")).toBe("https://graph.microsoft.com/v1.0/me");
+    expect(graph.url("me/messages")).toBe("https://graph.microsoft.com/v1.0/me/messages");
+    expect(graph.url("https://graph.microsoft.com/beta/me")).toBe(
+      "https://graph.microsoft.com/beta/me"
+    );
+    expect(new GraphClient({ graphVersion: "beta" }).url("/me")).toBe(
+      "https://graph.microsoft.com/beta/me"
+    );
+  });
+
+  it("should GET with the token, query and headers and return the typed body", async () => {
+    mockAxonInstance.get.mockResolvedValue({ status: 200, data: { displayName: "Test User" } });
+
+    const me = await graph.get<{ displayName: string }>("/me", {
+      query: { $select: "displayName", $filter: undefined },
+      headers: { ConsistencyLevel: "eventual" },
+    });
+
+    expect(me.displayName).toBe("Test User");
+    expect(mockAxonInstance.bearer).toHaveBeenCalledWith("token");
+    expect(mockAxonInstance.params).toHaveBeenCalledWith({ $select: "displayName" });
+    expect(mockAxonInstance.headers).toHaveBeenCalledWith({ ConsistencyLevel: "eventual" });
+    expect(mockAxonInstance.get).toHaveBeenCalledWith("https://graph.microsoft.com/v1.0/me");
+  });
+
+  it("should send bodies with POST, PUT and PATCH", async () => {
+    mockAxonInstance.post.mockResolvedValue({ status: 201, data: { id: "1" } });
+    mockAxonInstance.put.mockResolvedValue({ status: 200, data: {} });
+    mockAxonInstance.patch.mockResolvedValue({ status: 200, data: { isRead: true } });
+
+    await expect(graph.post("/me/events", { subject: "Sync" })).resolves.toEqual({ id: "1" });
+    await graph.put("/me/photo/$value", { photo: true });
+    await expect(graph.patch("/me/messages/1", { isRead: true })).resolves.toEqual({
+      isRead: true,
+    });
+
+    expect(mockAxonInstance.post).toHaveBeenCalledWith(
+      "https://graph.microsoft.com/v1.0/me/events",
+      { subject: "Sync" }
+    );
+    expect(mockAxonInstance.patch).toHaveBeenCalledWith(
+      "https://graph.microsoft.com/v1.0/me/messages/1",
+      { isRead: true }
+    );
+  });
+
+  it("should pass streams and buffers through untouched", async () => {
+    mockAxonInstance.put.mockResolvedValue({ status: 201, data: { id: "file" } });
+    const stream = Readable.from(["chunk"]);
+
+    await graph.put("/me/drive/root:/report.csv:/content", stream, {
+      headers: { "Content-Type": "text/csv" },
+    });
+
+    expect(mockAxonInstance.put.mock.calls[0][1]).toBe(stream);
+    expect(mockAxonInstance.headers).toHaveBeenCalledWith({ "Content-Type": "text/csv" });
+  });
+
+  it("should return status and headers from request()", async () => {
+    mockAxonInstance.post.mockResolvedValue({
+      status: 202,
+      headers: { location: "https://graph.microsoft.com/v1.0/operations/1" },
+      data: "",
+    });
+
+    const res = await graph.request("POST", "/me/sendMail", { message: {} });
+
+    expect(res.status).toBe(202);
+    expect(res.headers?.location).toBe("https://graph.microsoft.com/v1.0/operations/1");
+  });
+
+  it("should surface failures as typed Graph errors", async () => {
+    mockAxonInstance.delete.mockRejectedValue(
+      new (AxonError as any)("Not Found", 404, { error: { code: "itemNotFound", message: "Gone" } })
+    );
+
+    await expect(graph.delete("/me/messages/missing")).rejects.toBeInstanceOf(GraphNotFoundError);
+  });
+
+  describe("401 responses", () => {
+    const unauthorized = () =>
+      new (AxonError as any)("Unauthorized", 401, {
+        error: {
+          code: "InvalidAuthenticationToken",
+          message: "Access token has expired",
+          innerError: { "request-id": "req-401" },
+        },
+      });
+
+    it("should reject with GraphAuthError and keep the caller's access token", async () => {
+      const original = unauthorized();
+      mockAxonInstance.get.mockRejectedValue(original);
+
+      const error = await graph.get("/me").catch((e) => e);
+
+      expect(error).toBeInstanceOf(GraphAuthError);
+      expect(error).toMatchObject({
+        status: 401,
+        code: "InvalidAuthenticationToken",
+        requestId: "req-401",
+      });
+      expect(error.cause).toBe(original);
+      expect(mockAxonInstance.get).toHaveBeenCalledTimes(1);
+      expect(await auth.getAccessToken()).toBe("token");
+    });
+
+    it("should refresh a caller's access token with the configured refresh token", async () => {
+      const refreshingAuth = new AzureAuth({
+        accessToken: "stale-token",
+        refreshToken: "refresh-token",
+        clientId: "client",
+        clientSecret: "secret",
+        tenantId: "tenant",
+        logger: new SilentLogger(),
+        rateLimit: false,
+      });
+      mockAxonInstance.get
+        .mockRejectedValueOnce(unauthorized())
+        .mockResolvedValueOnce({ status: 200, data: { id: "me" } });
+      mockAxonInstance.post.mockResolvedValue({
+        status: 200,
+        data: { access_token: "new-token", refresh_token: "new-refresh-token", expires_in: 3600 },
+      });
+
+      await expect(new GraphClient(refreshingAuth).get("/me")).resolves.toEqual({ id: "me" });
+      expect(mockAxonInstance.post).toHaveBeenCalledTimes(1);
+      expect(mockAxonInstance.get).toHaveBeenCalledTimes(2);
+      expect(mockAxonInstance.bearer).toHaveBeenLastCalledWith("new-token");
+    });
+
+    it("should reject with GraphAuthError when the token can't be refreshed", async () => {
+      const refreshingAuth = new AzureAuth({
+        clientId: "client",
+        clientSecret: "secret",
+        tenantId: "tenant",
+        refreshToken: "revoked-refresh-token",
+        tokenStore: new MemoryTokenStore(),
+        logger: new SilentLogger(),
+        rateLimit: false,
+      });
+      (refreshingAuth as any).accessToken = "stale-token";
+      (refreshingAuth as any).expiredAt = Date.now() + 60 * 60 * 1000;
+      mockAxonInstance.get.mockRejectedValue(unauthorized());
+      mockAxonInstance.post.mockRejectedValue(
+        new (AxonError as any)("Bad Request", 400, {
+          error: "invalid_grant",
+          error_description: "AADSTS70008: The refresh token has expired",
+        })
+      );
+
+      const error = await new GraphClient(refreshingAuth).get("/me").catch((e) => e);
+
+      expect(error).toBeInstanceOf(GraphAuthError);
+      expect(error).toMatchObject({ status: 401, requestId: "req-401" });
+      expect(error.message).toBe(
+        "Authentication failed and the token could not be renewed: " +
+          "Failed to refresh access token: invalid_grant (request-id: req-401)"
+      );
+    });
+
+    it("should give token endpoint errors the status and OAuth error code", async () => {
+      const appAuth = new AzureAuth({
+        clientId: "client",
+        clientSecret: "secret",
+        tenantId: "tenant",
+        appOnly: true,
+        logger: new SilentLogger(),
+        rateLimit: false,
+      });
+      mockAxonInstance.post.mockRejectedValue(
+        new (AxonError as any)("Unauthorized", 401, { error: "invalid_client" })
+      );
+
+      const error = await appAuth.getAccessToken().catch((e) => e);
+
+      expect(error).toBeInstanceOf(GraphAuthError);
+      expect(error).toMatchObject({ status: 401, code: "invalid_client" });
+      expect(error.cause).toBeUndefined();
+    });
+  });
+
+  it("should queue the request when given a batch", async () => {
+    mockAxonInstance.post.mockImplementation(async (_url: string, body: any) => ({
+      status: 200,
+      data: {
+        responses: body.requests.map((request: any) => ({
+          id: request.id,
+          status: 200,
+          headers: {},
+          body: { url: request.url },
+        })),
+      },
+    }));
+    const batch = auth.batch();
+
+    const me = graph.get("/me", { batch, query: { $select: "id,mail" } });
+    await batch.execute();
+
+    await expect(me).resolves.toEqual({ url: "/me?$select=id%2Cmail" });
+    expect(mockAxonInstance.get).not.toHaveBeenCalled();
+  });
+});
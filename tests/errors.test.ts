@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from "vitest";
+import { AzureAuth } from "../src/core/auth";
+import {
+  createGraphError,
+  GraphAuthError,
+  GraphBadRequestError,
+  GraphConflictError,
+  GraphError,
+  GraphForbiddenError,
+  GraphNotFoundError,
+  GraphServerError,
+  GraphThrottledError,
+  parseRetryAfter,
+} from "../src/core/errors";
+import { AxonError } from "axios-fluent";
+
+vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any,
+      public headers?: { [key: string]: string }
+    ) {
+      super(message);
+    }
+  }
+
+  return {
+    default: {
+      new: vi.fn(() => ({})),
+    },
+    AxonError,
+  };
+});
+
+function graphBody(code: string, message: string) {
+  return {
+    error: {
+      code,
+      message,
+      innerError: {
+        "request-id": "req-123",
+        "client-request-id": "client-456",
+        date: "2024-05-01T10:00:00",
+      },
+    },
+  };
+}
+
+describe("GraphError", () => {
+  describe("createGraphError()", () => {
+    it.each([
+      [400, GraphBadRequestError, "Bad request: Invalid filter"],
+      [401, GraphAuthError, "Authentication failed"],
+      [403, GraphForbiddenError, "Permission denied: Invalid filter"],
+      [404, GraphNotFoundError, "Resource not found: Invalid filter"],
+      [409, GraphConflictError, "Conflict: Invalid filter"],
+      [412, GraphConflictError, "Conflict: Invalid filter"],
+      [429, GraphThrottledError, "Too many requests: Invalid filter"],
+      [500, GraphServerError, "Microsoft server error (500): Invalid filter"],
+      [503, GraphServerError, "Microsoft server error (503): Invalid filter"],
+      [418, GraphError, "Invalid filter"],
+    ])("should map %i to the matching error class", (status, ErrorClass, message) => {
+      const error = createGraphError(
+        new AxonError("Request failed", status, graphBody("someCode", "Invalid filter"))
+      );
+
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error).toBeInstanceOf(GraphError);
+      expect(error.message).toContain(message);
+      expect(error.name).toBe(ErrorClass.name);
+    });
+
+    it("should keep status, code, request IDs and cause", () => {
+      const original = new AxonError(
+        "Request failed with status code 404",
+        404,
+        graphBody("itemNotFound", "The item was not found")
+      );
+
+      const error = createGraphError(original);
+
+      expect(error.status).toBe(404);
+      expect(error.code).toBe("itemNotFound");
+      expect(error.requestId).toBe("req-123");
+      expect(error.clientRequestId).toBe("client-456");
+      expect(error.date).toBe("2024-05-01T10:00:00");
+      expect(error.cause).toBe(original);
+      expect(error.responseData).toEqual(original.responseData);
+      expect(error.message).toBe("Resource not found: The item was not found (request-id: req-123)");
+    });
+
+    it("should read Retry-After and request IDs from headers", () => {
+      const error = createGraphError(
+        new AxonError(
+          "Too Many Requests",
+          429,
+          { error: { code: "TooManyRequests", message: "Slow down" } },
+          { "Retry-After": "30", "request-id": "header-req", "client-request-id": "header-client" }
+        )
+      );
+
+      expect(error).toBeInstanceOf(GraphThrottledError);
+      expect(error.retryAfter).toBe(30);
+      expect(error.requestId).toBe("header-req");
+      expect(error.clientRequestId).toBe("header-client");
+      expect(error.message).toBe(
+        "Too many requests: Slow down (retry after 30s) (request-id: header-req)"
+      );
+    });
+
+    it("should treat a 403 as an auth error", () => {
+      const error = createGraphError(new AxonError("Forbidden", 403));
+
+      expect(error).toBeInstanceOf(GraphAuthError);
+      expect(error.message).toBe("Permission denied: You do not have access to this resource");
+    });
+
+    it("should use the OAuth error code from token endpoint responses", () => {
+      const error = createGraphError(
+        new AxonError("Bad Request", 400, {
+          error: "invalid_grant",
+          error_description: "AADSTS70008: The refresh token has expired",
+        })
+      );
+
+      expect(error.code).toBe("invalid_grant");
+      expect(error.message).toBe("Bad request: AADSTS70008: The refresh token has expired");
+    });
+  });
+
+  describe("parseRetryAfter()", () => {
+    it("should parse seconds and HTTP dates", () => {
+      expect(parseRetryAfter("120")).toBe(120);
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter("not a date")).toBeUndefined();
+
+      const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+      const seconds = parseRetryAfter(inTenSeconds)!;
+      expect(seconds).toBeGreaterThanOrEqual(9);
+      expect(seconds).toBeLessThanOrEqual(10);
+    });
+  });
+
+  describe("AzureAuth.withRetry()", () => {
+    it("should reject with typed errors that callers can branch on", async () => {
+      const auth = new AzureAuth({ accessToken: "test-token" });
+      const operation = vi
+        .fn()
+        .mockRejectedValue(new AxonError("Not Found", 404, graphBody("itemNotFound", "Gone")));
+
+      const error = await auth.withRetry(operation).catch((e) => e);
+
+      expect(error).toBeInstanceOf(GraphNotFoundError);
+      expect(error.requestId).toBe("req-123");
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("should pass non-HTTP errors through unchanged", async () => {
+      const auth = new AzureAuth({ accessToken: "test-token" });
+      const failure = new Error("socket hang up");
+
+      await expect(auth.withRetry(() => Promise.reject(failure))).rejects.toBe(failure);
+    });
+
+    it("should throw GraphAuthError for an invalid access token in access-token-only mode", () => {
+      const auth = new AzureAuth({ accessToken: "test-token" });
+
+      expect(() => auth.handleApiError(new AxonError("Unauthorized", 401))).toThrow(GraphAuthError);
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AzureAuth } from "../src/core/auth";
+import { ConsoleLogger, SilentLogger, redact, withRequestLogging } from "../src/core/logger";
+import { MemoryTokenStore } from "../src/core/tokenStore";
+import { Outlook } from "../src/services/Outlook";
+import type { Logger } from "../src/types";
+
+const mockPost = vi.fn();
+const mockAxonInstance = {
+  encodeUrl: vi.fn().mockReturnThis(),
+  post: mockPost,
+};
+
+vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any
+    ) {
+      super(message);
+    }
+  }
+
+  return {
+    default: {
+      new: vi.fn(() => mockAxonInstance),
+    },
+    AxonError,
+  };
+});
+
+function createMemoryLogger(): Logger & { entries: Array<{ level: string; args: unknown[] }> } {
+  const entries: Array<{ level: string; args: unknown[] }> = [];
+  return {
+    entries,
+    debug: (...args: unknown[]) => entries.push({ level: "debug", args }),
+    info: (...args: unknown[]) => entries.push({ level: "info", args }),
+    warn: (...args: unknown[]) => entries.push({ level: "warn", args }),
+    error: (...args: unknown[]) => entries.push({ level: "error", args }),
+  };
+}
+
+describe("Logger", () => {
+  beforeEach(() => {
+    mockPost.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("ConsoleLogger", () => {
+    it("should drop messages below the minimum level", () => {
+      const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+      const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const logger = new ConsoleLogger("warn");
+      logger.debug("debug message");
+      logger.info("info message");
+      logger.warn("warn message", { detail: 1 });
+
+      expect(debugSpy).not.toHaveBeenCalled();
+      expect(infoSpy).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith("warn message", { detail: 1 });
+    });
+
+    it("should default to info level", () => {
+      const logger = new ConsoleLogger();
+
+      expect(logger.isEnabled("debug")).toBe(false);
+      expect(logger.isEnabled("info")).toBe(true);
+    });
+  });
+
+  describe("SilentLogger", () => {
+    it("should never write to the console", () => {
+      const errorSpy = vi.spyOn(console, "error");
+      const logger = new SilentLogger();
+
+      logger.error("boom");
+
+      expect(errorSpy).not.toHaveBeenCalled();
+      expect(logger.isEnabled()).toBe(false);
+    });
+  });
+
+  describe("redact()", () => {
+    it("should replace tokens and secrets at any depth", () => {
+      const result = redact({
+        access_token: "at",
+        refresh_token: "rt",
+        client_secret: "cs",
+        client_assertion: "ca",
+        code_verifier: "cv",
+        nested: { Authorization: "Bearer x", keep: "value" },
+        list: [{ idToken: "it", name: "n" }],
+      });
+
+      expect(result).toEqual({
+        access_token: "[REDACTED]",
+        refresh_token: "[REDACTED]",
+        client_secret: "[REDACTED]",
+        client_assertion: "[REDACTED]",
+        code_verifier: "[REDACTED]",
+        nested: { Authorization: "[REDACTED]", keep: "value" },
+        list: [{ idToken: "[REDACTED]", name: "n" }],
+      });
+    });
+
+    it("should redact extra keys and leave primitives untouched", () => {
+      expect(redact({ code: "auth-code", error: { code: "NotFound" } }, ["code"])).toEqual({
+        code: "[REDACTED]",
+        error: { code: "[REDACTED]" },
+      });
+      expect(redact({ error: { code: "NotFound" } })).toEqual({ error: { code: "NotFound" } });
+      expect(redact("plain")).toBe("plain");
+    });
+  });
+
+  describe("withRequestLogging()", () => {
+    it("should log chained requests and responses at debug level", async () => {
+      const logger = createMemoryLogger();
+      const client = {
+        bearer: vi.fn(function (this: any) {
+          return this;
+        }),
+        get: vi.fn(async () => ({ status: 200, data: { value: [], accessToken: "secret" } })),
+      };
+
+      const wrapped = withRequestLogging(client, logger);
+      const res = await wrapped.bearer("token").get("https://graph.microsoft.com/v1.0/me");
+
+      expect(res.status).toBe(200);
+      expect(client.get).toHaveBeenCalledWith("https://graph.microsoft.com/v1.0/me");
+      expect(logger.entries.map((e) => e.args[0])).toEqual([
+        "HTTP GET https://graph.microsoft.com/v1.0/me",
+        expect.stringMatching(/^HTTP GET https:\/\/graph\.microsoft\.com\/v1\.0\/me -> 200 \(\d+ms\)$/),
+      ]);
+      expect(logger.entries[1].args[1]).toEqual({
+        data: { value: [], accessToken: "[REDACTED]" },
+      });
+    });
+
+    it("should log failed requests and rethrow", async () => {
+      const logger = createMemoryLogger();
+      const failure = Object.assign(new Error("Not Found"), {
+        status: 404,
+        responseData: { error: { code: "itemNotFound" } },
+      });
+      const client = { post: vi.fn(async () => Promise.reject(failure)) };
+
+      await expect(
+        withRequestLogging(client, logger).post("https://example.com", { name: "x" })
+      ).rejects.toBe(failure);
+
+      expect(logger.entries[0].args).toEqual(["HTTP POST https://example.com", { body: { name: "x" } }]);
+      expect(logger.entries[1].args[0]).toMatch(/failed -> 404/);
+      expect(logger.entries[1].args[1]).toEqual({ data: { error: { code: "itemNotFound" } } });
+    });
+
+    it("should return the client unchanged when debug is disabled", () => {
+      const client = { get: vi.fn() };
+
+      expect(withRequestLogging(client, new ConsoleLogger("info"))).toBe(client);
+      expect(withRequestLogging(client, new SilentLogger())).toBe(client);
+    });
+  });
+
+  describe("AzureAuth logging", () => {
+    const baseConfig = {
+      clientId: "log-client",
+      clientSecret: "log-secret",
+      tenantId: "log-tenant",
+      refreshToken: "log-refresh-token",
+    };
+
+    it("should route auth messages through the configured logger", async () => {
+      const consoleSpy = vi.spyOn(console, "error");
+      const logger = createMemoryLogger();
+      mockPost.mockRejectedValueOnce(
+        Object.assign(new Error("Bad Request"), {
+          status: 400,
+          responseData: { error: "invalid_grant" },
+          config: { data: "refresh_token=log-refresh-token&client_secret=log-secret" },
+        })
+      );
+
+      const auth = new AzureAuth({ ...baseConfig, logger, tokenStore: new MemoryTokenStore() });
+
+      await expect(auth.checkToken()).rejects.toThrow("Failed to refresh access token");
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(logger.entries).toContainEqual({
+        level: "error",
+        args: [
+          "Error refreshing access token:",
+          { message: "Bad Request", status: 400, data: { error: "invalid_grant" } },
+        ],
+      });
+      expect(JSON.stringify(logger.entries)).not.toContain("log-secret");
+      expect(JSON.stringify(logger.entries)).not.toContain("log-refresh-token");
+    });
+
+    it("should log token requests with secrets redacted at debug level", async () => {
+      const logger = createMemoryLogger();
+      mockPost.mockResolvedValueOnce({
+        status: 200,
+        data: { access_token: "new-access", refresh_token: "new-refresh", expires_in: 3600 },
+      });
+
+      const auth = new AzureAuth({ ...baseConfig, logger, tokenStore: new MemoryTokenStore() });
+      await auth.checkToken();
+
+      const debugEntries = logger.entries.filter((e) => e.level === "debug");
+      expect(debugEntries[0].args[0]).toBe(
+        "HTTP POST https://login.microsoftonline.com/log-tenant/oauth2/v2.0/token"
+      );
+      expect(debugEntries[0].args[1]).toMatchObject({
+        body: {
+          client_id: "log-client",
+          refresh_token: "[REDACTED]",
+          client_secret: "[REDACTED]",
+          grant_type: "refresh_token",
+        },
+      });
+      expect(debugEntries[1].args[1]).toMatchObject({
+        data: { access_token: "[REDACTED]", refresh_token: "[REDACTED]", expires_in: 3600 },
+      });
+
+      const serialized = JSON.stringify(logger.entries);
+      expect(serialized).not.toContain("new-access");
+      expect(serialized).not.toContain("log-secret");
+    });
+
+    it("should keep a silent logger across shared instances", () => {
+      const logger = new SilentLogger();
+      AzureAuth.setGlobalConfig({ ...baseConfig, logger });
+
+      expect(new AzureAuth().getLogger()).toBe(logger);
+      AzureAuth.reset();
+    });
+  });
+
+  describe("MailBuilder logging", () => {
+    it("should report attachment errors through the service logger", () => {
+      const consoleSpy = vi.spyOn(console, "error");
+      const logger = createMemoryLogger();
+      const outlook = new Outlook({ accessToken: "token", logger });
+
+      expect(() => outlook.compose().attachments(["./does-not-exist.pdf"])).toThrow(
+        "Failed to process attachment: ./does-not-exist.pdf"
+      );
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(logger.entries[0].level).toBe("error");
+      expect(logger.entries[0].args[0]).toBe("Error processing attachment:");
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AzureAuth } from "../src/core/auth";
+import { GraphClient } from "../src/core/client";
+import { SilentLogger } from "../src/core/logger";
+import { ODataQuery, filter, formatLiteral, mergeQueries } from "../src/core/odata";
+import { Outlook } from "../src/services/Outlook";
+import { SharePoint } from "../src/services/SharePoint";
+
+const mockAxonInstance = {
+  bearer: vi.fn().mockReturnThis(),
+  params: vi.fn().mockReturnThis(),
+  headers: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+};
+
+vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any
+    ) {
+      super(message);
+    }
+  }
+
+  return {
+    default: {
+      new: vi.fn(() => mockAxonInstance),
+    },
+    AxonError,
+  };
+});
+
+describe("OData", () => {
+  describe("formatLiteral()", () => {
+    it("should quote strings and double embedded single quotes", () => {
+      expect(formatLiteral("O'Brien")).toBe("'O''Brien'");
+      expect(formatLiteral("''")).toBe("''''''");
+    });
+
+    it("should format dates, numbers, booleans and null", () => {
+      expect(formatLiteral(new Date("2024-01-15T08:30:00Z"))).toBe("2024-01-15T08:30:00Z");
+      expect(formatLiteral(new Date("2024-01-15T08:30:00.250Z"))).toBe("2024-01-15T08:30:00.250Z");
+      expect(formatLiteral(42)).toBe("42");
+      expect(formatLiteral(false)).toBe("false");
+      expect(formatLiteral(null)).toBe("null");
+      expect(() => formatLiteral(new Date("nope"))).toThrow("Invalid Date");
+    });
+  });
+
+  describe("filter", () => {
+    it("should build comparisons and functions", () => {
+      expect(filter.eq("fields/Status", "Won't fix").toString()).toBe(
+        "fields/Status eq 'Won''t fix'"
+      );
+      expect(filter.ge("receivedDateTime", new Date("2024-01-01")).toString()).toBe(
+        "receivedDateTime ge 2024-01-01T00:00:00Z"
+      );
+      expect(filter.startsWith("subject", "Re:").toString()).toBe("startswith(subject,'Re:')");
+      expect(filter.in("importance", ["high", "normal"]).toString()).toBe(
+        "importance in ('high', 'normal')"
+      );
+    });
+
+    it("should combine expressions with and, or and not", () => {
+      const expression = filter
+        .eq("isRead", false)
+        .and(filter.or(filter.eq("importance", "high"), filter.contains("subject", "urgent")))
+        .not();
+
+      expect(expression.toString()).toBe(
+        "not ((isRead eq false) and ((importance eq 'high') or (contains(subject,'urgent'))))"
+      );
+      expect(filter.and(filter.raw("a eq 1")).toString()).toBe("a eq 1");
+      expect(() => filter.or()).toThrow("at least one expression");
+    });
+
+    it("should build any/all lambdas", () => {
+      expect(filter.any("categories", (c) => filter.eq(c, "Urgent")).toString()).toBe(
+        "categories/any(x:x eq 'Urgent')"
+      );
+      const allFromDomain = filter.all(
+        "toRecipients",
+        (r) => filter.endsWith(`${r}/emailAddress/address`, "@a.com"),
+        "r"
+      );
+      expect(allFromDomain.toString()).toBe(
+        "toRecipients/all(r:endswith(r/emailAddress/address,'@a.com'))"
+      );
+      expect(filter.any("attachments").toString()).toBe("attachments/any()");
+    });
+  });
+
+  describe("ODataQuery", () => {
+    it("should produce query parameters", () => {
+      const query = new ODataQuery<{ subject: string; receivedDateTime: string; fields: any }>()
+        .filter(filter.eq("isRead", false))
+        .filter("importance eq 'high'")
+        .select("subject", "receivedDateTime")
+        .orderBy("receivedDateTime", "desc")
+        .expand("fields", "$select=Title")
+        .top(10)
+        .count();
+
+      expect(query.toParams()).toEqual({
+        $filter: "(isRead eq false) and (importance eq 'high')",
+        $select: "subject,receivedDateTime",
+        $orderby: "receivedDateTime desc",
+        $expand: "fields($select=Title)",
+        $top: 10,
+        $count: true,
+      });
+    });
+
+    it("should quote and escape the search term", () => {
+      const query = new ODataQuery().search('subject:"Q3 \\ report"');
+
+      expect(query.toParams()).toEqual({ $search: '"subject:\\"Q3 \\\\ report\\""' });
+      expect(new ODataQuery().top(5).toString()).toBe("$top=5");
+    });
+  });
+
+  describe("mergeQueries()", () => {
+    it("should let later values win and AND the filters", () => {
+      const merged = mergeQueries(
+        { $filter: "a eq 1", $top: 10, $select: undefined },
+        undefined,
+        new ODataQuery().filter(filter.eq("b", "x")).top(5)
+      );
+
+      expect(merged).toEqual({ $filter: "(a eq 1) and (b eq 'x')", $top: 5 });
+    });
+  });
+
+  describe("Requests", () => {
+    let auth: AzureAuth;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockAxonInstance.get.mockResolvedValue({ status: 200, data: { value: [] } });
+      auth = new AzureAuth({ accessToken: "token", logger: new SilentLogger(), rateLimit: false });
+    });
+
+    afterEach(() => {
+      AzureAuth.reset();
+    });
+
+    it("should send ConsistencyLevel: eventual with $count", async () => {
+      await new GraphClient(auth).get("/users", {
+        query: new ODataQuery().filter(filter.endsWith("mail", "@contoso.com")).count(),
+      });
+
+      expect(mockAxonInstance.params).toHaveBeenCalledWith({
+        $filter: "endswith(mail,'@contoso.com')",
+        $count: true,
+      });
+      expect(mockAxonInstance.headers).toHaveBeenCalledWith({ ConsistencyLevel: "eventual" });
+    });
+
+    it("should accept a Filter and a caller query in getListItems", async () => {
+      const sharepoint = new SharePoint(auth, "site-123");
+
+      await sharepoint.getListItems(
+        "Tasks",
+        { filter: filter.eq("fields/Owner", "O'Neil"), expand: "fields" },
+        undefined,
+        { query: { $filter: "fields/Done eq false" } }
+      );
+
+      expect(mockAxonInstance.params).toHaveBeenCalledWith({
+        $filter: "(fields/Owner eq 'O''Neil') and (fields/Done eq false)",
+        $expand: "fields",
+      });
+    });
+
+    it("should escape quotes in the getMails subject filter", async () => {
+      const outlook = new Outlook(auth);
+
+      await outlook.getMails("2024-01-15", 'say "hi"', { query: { $top: 5 } });
+
+      expect(mockAxonInstance.params).toHaveBeenCalledWith({
+        $search: '"received:2024/01/15 AND subject:say \\"hi\\""',
+        $select: "from,subject,body,receivedDateTime",
+        $top: 5,
+      });
+    });
+  });
+});
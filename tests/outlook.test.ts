@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { Outlook, MailBuilder } from "../src/services/Outlook";
 import { AzureAuth } from "../src/core/auth";
+import { filter } from "../src/core/odata";
+import { RequestAbortedError } from "../src/core/cancellation";
 import Axon from "axios-fluent";
 import * as fs from "fs";
 
@@ -113,6 +115,62 @@ describe("Outlook Service", () => {
     });
   });
 
+  describe("Custom Graph endpoint", () => {
+    it("should send requests to the configured graph endpoint", async () => {
+      const customAuth = new AzureAuth({
+        accessToken: "mock-access-token",
+        graphEndpoint: "http://localhost:4000",
+      });
+      vi.spyOn(customAuth, "getAxon").mockImplementation(() => Axon.new());
+
+      const mockAxonInstance = {
+        bearer: vi.fn().mockReturnThis(),
+        get: vi.fn().mockResolvedValue({ data: { id: "user-123" } }),
+      };
+
+      (Axon.new as any).mockReturnValue(mockAxonInstance);
+
+      await new Outlook(customAuth).getMe();
+
+      expect(mockAxonInstance.get).toHaveBeenCalledWith(
+        "http://localhost:4000/v1.0/me"
+      );
+    });
+  });
+
+  describe("App-only mode", () => {
+    it("should target the configured mailbox instead of /me", async () => {
+      const mockAxonInstance = {
+        bearer: vi.fn().mockReturnThis(),
+        post: vi.fn().mockResolvedValue({ status: 202 }),
+      };
+
+      (Axon.new as any).mockReturnValue(mockAxonInstance);
+
+      const ol = new Outlook(mockAuth, "reports@contoso.com");
+      await ol.sendMail({
+        message: {
+          subject: "Nightly report",
+          body: { contentType: "Text", content: "Done" },
+          toRecipients: [],
+        },
+      });
+
+      expect(mockAxonInstance.post).toHaveBeenCalledWith(
+        "https://graph.microsoft.com/v1.0/users/reports%40contoso.com/sendMail",
+        expect.any(Object)
+      );
+    });
+
+    it("should allow changing the target user", () => {
+      const ol = new Outlook(mockAuth);
+      expect(ol.getUserId()).toBeUndefined();
+
+      ol.setUserId("user-123");
+      expect(ol.getUserId()).toBe("user-123");
+    });
+  });
+
   describe("sendMail", () => {
     beforeEach(() => {
       outlook = new Outlook(mockAuth);
@@ -297,6 +355,483 @@ describe("Outlook Service", () => {
     });
   });
 
+  describe("listMessages", () => {
+    let mockAxonInstance: any;
+
+    beforeEach(() => {
+      outlook = new Outlook(mockAuth);
+      mockAxonInstance = {
+        bearer: vi.fn().mockReturnThis(),
+        params: vi.fn().mockReturnThis(),
+        headers: vi.fn().mockReturnThis(),
+        get: vi.fn().mockResolvedValue({
+          data: {
+            value: [
+              {
+                id: "AAMk=",
+                subject: "Prod alert",
+                toRecipients: [{ emailAddress: { address: "ops@example.com" } }],
+                hasAttachments: true,
+                categories: ["Alerts"],
+                importance: "high",
+                conversationId: "conv-1",
+              },
+            ],
+          },
+        }),
+      };
+      (Axon.new as any).mockReturnValue(mockAxonInstance);
+    });
+
+    it("should list every folder with the default fields", async () => {
+      const messages = await outlook.listMessages();
+
+      expect(messages[0]).toMatchObject({ id: "AAMk=", hasAttachments: true, importance: "high" });
+      expect(mockAxonInstance.get).toHaveBeenCalledWith(
+        "https://graph.microsoft.com/v1.0/me/messages"
+      );
+      const params = mockAxonInstance.params.mock.calls[0][0];
+      expect(params.$select.split(",")).toEqual(
+        expect.arrayContaining(["id", "toRecipients", "conversationId", "categories", "flag"])
+      );
+      expect(params.$select).not.toContain("body,");
+      expect(mockAxonInstance.headers).not.toHaveBeenCalled();
+    });
+
+    it("should scope to a folder and apply filter, search, orderBy and select", async () => {
+      await outlook.listMessages({
+        folder: "inbox",
+        filter: filter.eq("isRead", false),
+        orderBy: "receivedDateTime desc",
+        select: ["id", "subject", "body"],
+        bodyType: "text",
+        pageSize: 25,
+      });
+
+      expect(mockAxonInstance.get).toHaveBeenCalledWith(
+        "https://graph.microsoft.com/v1.0/me/mailFolders/inbox/messages"
+      );
+      expect(mockAxonInstance.params).toHaveBeenCalledWith({
+        $filter: "isRead eq false",
+        $select: "id,subject,body",
+        $orderby: "receivedDateTime desc",
+        $top: 25,
+      });
+      expect(mockAxonInstance.headers).toHaveBeenCalledWith({
+        Prefer: 'outlook.body-content-type="text"',
+      });
+    });
+
+    it("should quote the search term", async () => {
+      await outlook.listMessages({ search: 'subject:"Q3 report"', select: ["id"] });
+
+      expect(mockAxonInstance.params).toHaveBeenCalledWith({
+        $search: '"subject:\\"Q3 report\\""',
+        $select: "id",
+      });
+    });
+  });
+
+  describe("getMessage", () => {
+    it("should get one message with attachments expanded", async () => {
+      outlook = new Outlook(mockAuth);
+      const message = {
+        id: "AAMk=",
+        subject: "Report",
+        attachments: [{ id: "att-1", name: "report.pdf", size: 10, isInline: false }],
+      };
+      const mockAxonInstance = {
+        bearer: vi.fn().mockReturnThis(),
+        params: vi.fn().mockReturnThis(),
+        get: vi.fn().mockResolvedValue({ status: 200, data: message }),
+      };
+      (Axon.new as any).mockReturnValue(mockAxonInstance);
+
+      const result = await outlook.getMessage("AAMk=", { includeAttachments: true });
+
+      expect(result).toEqual(message);
+      expect(mockAxonInstance.get).toHaveBeenCalledWith(
+        "https://graph.microsoft.com/v1.0/me/messages/AAMk%3D"
+      );
+      expect(mockAxonInstance.params).toHaveBeenCalledWith({ $expand: "attachments" });
+    });
+  });
+
+  describe("Mail folders", () => {
+    const BASE = "https://graph.microsoft.com/v1.0/me/mailFolders";
+    let mockAxonInstance: any;
+
+    beforeEach(() => {
+      outlook = new Outlook(mockAuth);
+      mockAxonInstance = {
+        bearer: vi.fn().mockReturnThis(),
+        params: vi.fn().mockReturnThis(),
+        headers: vi.fn().mockReturnThis(),
+        get: vi.fn(),
+        post: vi.fn(),
+        patch: vi.fn(),
+        delete: vi.fn().mockResolvedValue({ status: 204, data: "" }),
+      };
+      (Axon.new as any).mockReturnValue(mockAxonInstance);
+    });
+
+    it("should resolve a display path from a well-known first segment", async () => {
+      mockAxonInstance.get
+        .mockResolvedValueOnce({ status: 200, data: { id: "inbox-id", displayName: "Inbox" } })
+        .mockResolvedValueOnce({ status: 200, data: { value: [{ id: "alerts-id" }] } })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { value: [{ id: "prod-id", displayName: "Prod", unreadItemCount: 3 }] },
+        });
+
+      const folder = await outlook.resolveFolder("Inbox/Alerts/Prod");
+
+      expect(folder).toMatchObject({ id: "prod-id", unreadItemCount: 3 });
+      expect(mockAxonInstance.get.mock.calls.map((call: any[]) => call[0])).toEqual([
+        `${BASE}/inbox`,
+        `${BASE}/inbox-id/childFolders`,
+        `${BASE}/alerts-id/childFolders`,
+      ]);
+      expect(mockAxonInstance.params).toHaveBeenCalledWith({ $filter: "displayName eq 'Prod'" });
+    });
+
+    it("should throw when a folder on the path is missing", async () => {
+      mockAxonInstance.get.mockResolvedValue({ status: 200, data: { value: [] } });
+
+      await expect(outlook.resolveFolder("Projects/Q3")).rejects.toThrow(
+        'Mail folder "Projects" not found (resolving "Projects/Q3")'
+      );
+      expect(mockAxonInstance.params).toHaveBeenCalledWith({
+        $filter: "displayName eq 'Projects'",
+      });
+    });
+
+    it("should scope listMessages to a folder given by path", async () => {
+      mockAxonInstance.get
+        .mockResolvedValueOnce({ status: 200, data: { id: "archive-id" } })
+        .mockResolvedValueOnce({ status: 200, data: { value: [{ id: "m1" }] } });
+
+      const messages = await outlook.listMessages({ folder: { path: "Archive" }, select: ["id"] });
+
+      expect(messages).toEqual([{ id: "m1" }]);
+      expect(mockAxonInstance.get).toHaveBeenLastCalledWith(`${BASE}/archive-id/messages`);
+    });
+
+    it("should load the folder tree with well-known names", async () => {
+      mockAxonInstance.post.mockImplementation(async (_url: string, body: any) => ({
+        status: 200,
+        data: {
+          responses: body.requests.map((request: any) => {
+            const name = request.url.match(/mailFolders\/(\w+)/)[1];
+            return name === "inbox" || name === "archive"
+              ? { id: request.id, status: 200, body: { id: `${name}-id` } }
+              : { id: request.id, status: 404, body: { error: { code: "ErrorItemNotFound" } } };
+          }),
+        },
+      }));
+      mockAxonInstance.get.mockImplementation(async (url: string) => {
+        const folders: Record<string, any[]> = {
+          [BASE]: [
+            { id: "inbox-id", displayName: "Inbox", childFolderCount: 1, unreadItemCount: 2 },
+            { id: "archive-id", displayName: "Archive", childFolderCount: 0 },
+            { id: "custom-id", displayName: "Projects", childFolderCount: 0 },
+          ],
+          [`${BASE}/inbox-id/childFolders`]: [
+            { id: "alerts-id", displayName: "Alerts", childFolderCount: 0, unreadItemCount: 5 },
+          ],
+        };
+        return { status: 200, data: { value: folders[url] } };
+      });
+
+      const tree = await outlook.getFolderTree();
+
+      expect(mockAxonInstance.post).toHaveBeenCalledTimes(1);
+      expect(tree.map((folder) => [folder.path, folder.wellKnownName])).toEqual([
+        ["Inbox", "inbox"],
+        ["Archive", "archive"],
+        ["Projects", undefined],
+      ]);
+      expect(tree[0].children).toEqual([
+        expect.objectContaining({ id: "alerts-id", path: "Inbox/Alerts", unreadItemCount: 5 }),
+      ]);
+      expect(tree[1].children).toEqual([]);
+      expect(mockAxonInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("should create, rename and delete folders", async () => {
+      mockAxonInstance.post.mockResolvedValue({
+        status: 201,
+        data: { id: "prod-id", displayName: "Prod" },
+      });
+      mockAxonInstance.patch.mockResolvedValue({
+        status: 200,
+        data: { id: "prod-id", displayName: "Production" },
+      });
+
+      await outlook.createFolder("Prod", { id: "alerts-id" });
+      const renamed = await outlook.renameFolder("prod-id", "Production");
+      await outlook.deleteFolder({ id: "prod-id" });
+
+      expect(mockAxonInstance.post).toHaveBeenCalledWith(`${BASE}/alerts-id/childFolders`, {
+        displayName: "Prod",
+      });
+      expect(renamed.displayName).toBe("Production");
+      expect(mockAxonInstance.patch).toHaveBeenCalledWith(`${BASE}/prod-id`, {
+        displayName: "Production",
+      });
+      expect(mockAxonInstance.delete).toHaveBeenCalledWith(`${BASE}/prod-id`);
+    });
+
+    it("should apply the caller's signal to every request of getFolder", async () => {
+      const controller = new AbortController();
+      mockAxonInstance.get.mockImplementation(async () => {
+        controller.abort();
+        return { status: 200, data: { value: [{ id: "alerts-id" }] } };
+      });
+
+      await expect(
+        outlook.getFolder({ path: "Projects/Alerts" }, { signal: controller.signal })
+      ).rejects.toThrow(RequestAbortedError);
+      expect(mockAxonInstance.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("should list hidden child folders", async () => {
+      mockAxonInstance.get.mockResolvedValue({ status: 200, data: { value: [] } });
+
+      await outlook.listFolders({ parent: "inbox", includeHidden: true });
+
+      expect(mockAxonInstance.get).toHaveBeenCalledWith(`${BASE}/inbox/childFolders`);
+      expect(mockAxonInstance.params).toHaveBeenCalledWith({ includeHiddenFolders: true });
+    });
+  });
+
+  describe("Message actions", () => {
+    const BASE = "https://graph.microsoft.com/v1.0";
+    let mockAxonInstance: any;
+    let batchRequests: any[];
+
+    beforeEach(() => {
+      outlook = new Outlook(mockAuth);
+      batchRequests = [];
+      mockAxonInstance = {
+        bearer: vi.fn().mockReturnThis(),
+        params: vi.fn().mockReturnThis(),
+        headers: vi.fn().mockReturnThis(),
+        get: vi.fn(),
+        patch: vi.fn().mockResolvedValue({ status: 200, data: {} }),
+        post: vi.fn(async (url: string, body: any) => {
+          if (url !== `${BASE}/$batch`) {
+            return { status: 201, data: { id: "new-id" } };
+          }
+          batchRequests.push(...body.requests);
+          return {
+            status: 200,
+            data: {
+              responses: body.requests.map((request: any) => ({
+                id: request.id,
+                status: 200,
+                body: { id: `${request.url.split("/")[3]}-moved`, categories: ["Alerts"] },
+              })),
+            },
+          };
+        }),
+      };
+      (Axon.new as any).mockReturnValue(mockAxonInstance);
+    });
+
+    it("should move a single message without a batch", async () => {
+      const moved = await outlook.moveMessages("AAMk=", "archive");
+
+      expect(moved).toEqual([{ id: "new-id" }]);
+      expect(mockAxonInstance.post).toHaveBeenCalledTimes(1);
+      expect(mockAxonInstance.post).toHaveBeenCalledWith(`${BASE}/me/messages/AAMk%3D/move`, {
+        destinationId: "archive",
+      });
+    });
+
+    it("should copy several messages in one batch to a folder given by path", async () => {
+      mockAxonInstance.get.mockResolvedValueOnce({ status: 200, data: { id: "archive-id" } });
+
+      const copies = await outlook.copyMessages(["m1", "m2"], { path: "Archive" });
+
+      expect(copies.map((message) => message.id)).toEqual(["m1-moved", "m2-moved"]);
+      expect(mockAxonInstance.post).toHaveBeenCalledTimes(1);
+      expect(batchRequests).toEqual([
+        expect.objectContaining({
+          method: "POST",
+          url: "/me/messages/m1/copy",
+          body: { destinationId: "archive-id" },
+        }),
+        expect.objectContaining({ url: "/me/messages/m2/copy" }),
+      ]);
+    });
+
+    it("should mark as read and flag in batches", async () => {
+      await outlook.markAsRead(["m1", "m2", "m3"], false);
+      await outlook.setFlag(["m1", "m2"]);
+      await outlook.clearFlag("m3");
+
+      expect(batchRequests.map((request) => [request.method, request.url, request.body])).toEqual([
+        ["PATCH", "/me/messages/m1", { isRead: false }],
+        ["PATCH", "/me/messages/m2", { isRead: false }],
+        ["PATCH", "/me/messages/m3", { isRead: false }],
+        ["PATCH", "/me/messages/m1", { flag: { flagStatus: "flagged" } }],
+        ["PATCH", "/me/messages/m2", { flag: { flagStatus: "flagged" } }],
+      ]);
+      expect(mockAxonInstance.patch).toHaveBeenCalledWith(`${BASE}/me/messages/m3`, {
+        flag: { flagStatus: "notFlagged" },
+      });
+    });
+
+    it("should merge categories and skip messages that already have them", async () => {
+      mockAxonInstance.post.mockImplementationOnce(async (_url: string, body: any) => ({
+        status: 200,
+        data: {
+          responses: [
+            { id: body.requests[0].id, status: 200, body: { id: "m1", categories: ["Alerts"] } },
+            { id: body.requests[1].id, status: 200, body: { id: "m2", categories: [] } },
+          ],
+        },
+      }));
+
+      await outlook.addCategories(["m1", "m2"], ["Alerts"]);
+
+      expect(mockAxonInstance.patch).toHaveBeenCalledTimes(1);
+      expect(mockAxonInstance.patch).toHaveBeenCalledWith(`${BASE}/me/messages/m2`, {
+        categories: ["Alerts"],
+      });
+    });
+
+    it("should remove categories", async () => {
+      mockAxonInstance.get.mockResolvedValue({
+        status: 200,
+        data: { id: "m1", categories: ["Alerts", "Prod"] },
+      });
+
+      await outlook.removeCategories("m1", ["Prod"]);
+
+      expect(mockAxonInstance.params).toHaveBeenCalledWith({ $select: "categories" });
+      expect(mockAxonInstance.patch).toHaveBeenCalledWith(`${BASE}/me/messages/m1`, {
+        categories: ["Alerts"],
+      });
+    });
+
+    it("should soft-delete to Deleted Items and purge with permanent", async () => {
+      await outlook.deleteMessages("m1");
+      await outlook.deleteMessages("m2", { permanent: true });
+
+      expect(mockAxonInstance.post).toHaveBeenNthCalledWith(1, `${BASE}/me/messages/m1/move`, {
+        destinationId: "deleteditems",
+      });
+      expect(mockAxonInstance.post).toHaveBeenNthCalledWith(
+        2,
+        `${BASE}/me/messages/m2/permanentDelete`
+      );
+    });
+
+    it("should queue requests in the caller's batch", async () => {
+      const batch = mockAuth.batch();
+
+      const moved = outlook.moveMessages(["m1", "m2"], { id: "folder-id" }, { batch });
+      await batch.execute();
+
+      expect((await moved).map((message) => message.id)).toEqual(["m1-moved", "m2-moved"]);
+      expect(mockAxonInstance.post).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Replies and forwards", () => {
+    const BASE = "https://graph.microsoft.com/v1.0/me/messages";
+    let mockAxonInstance: any;
+
+    beforeEach(() => {
+      outlook = new Outlook(mockAuth);
+      mockAxonInstance = {
+        bearer: vi.fn().mockReturnThis(),
+        patch: vi.fn().mockResolvedValue({ status: 200, data: {} }),
+        post: vi.fn().mockResolvedValue({ status: 202, data: "" }),
+      };
+      (Axon.new as any).mockReturnValue(mockAxonInstance);
+    });
+
+    it("should reply with a comment in one request", async () => {
+      await outlook.replyToMessage("AAMk=", { comment: "Fixed, thanks" });
+
+      expect(mockAxonInstance.post).toHaveBeenCalledTimes(1);
+      expect(mockAxonInstance.post).toHaveBeenCalledWith(`${BASE}/AAMk%3D/reply`, {
+        comment: "Fixed, thanks",
+      });
+    });
+
+    it("should add extra recipients to a reply-all through a draft", async () => {
+      mockAxonInstance.post.mockResolvedValueOnce({
+        status: 201,
+        data: {
+          id: "draft-1",
+          toRecipients: [{ emailAddress: { address: "alice@example.com" } }],
+          ccRecipients: [{ emailAddress: { address: "bob@example.com" } }],
+        },
+      });
+
+      mockAxonInstance.patch.mockResolvedValueOnce({ status: 200, data: { id: "draft-1" } });
+
+      await outlook
+        .replyAll("m1")
+        .comment("Adding the on-call team")
+        .cc(["BOB@example.com", "oncall@example.com"])
+        .send();
+
+      expect(mockAxonInstance.post).toHaveBeenNthCalledWith(1, `${BASE}/m1/createReplyAll`, {
+        comment: "Adding the on-call team",
+        message: {},
+      });
+      expect(mockAxonInstance.patch).toHaveBeenCalledWith(`${BASE}/draft-1`, {
+        toRecipients: [{ emailAddress: { address: "alice@example.com" } }],
+        ccRecipients: [
+          { emailAddress: { address: "bob@example.com" } },
+          { emailAddress: { address: "oncall@example.com" } },
+        ],
+        bccRecipients: [],
+      });
+      expect(mockAxonInstance.post).toHaveBeenNthCalledWith(2, `${BASE}/draft-1/send`);
+    });
+
+    it("should forward with recipients, a full body and attachments", async () => {
+      await outlook
+        .forward("m1")
+        .to(["oncall@example.com"])
+        .body("<p>See below</p>", "HTML")
+        .attachments([{ name: "log.txt", content: Buffer.from("boom") }])
+        .send();
+
+      expect(mockAxonInstance.post).toHaveBeenCalledWith(`${BASE}/m1/forward`, {
+        message: {
+          body: { content: "<p>See below</p>", contentType: "HTML" },
+          toRecipients: [{ emailAddress: { address: "oncall@example.com" } }],
+          attachments: [
+            {
+              "@odata.type": "#microsoft.graph.fileAttachment",
+              name: "log.txt",
+              contentType: "text/plain",
+              contentBytes: Buffer.from("boom").toString("base64"),
+            },
+          ],
+        },
+      });
+    });
+
+    it("should reject a forward without recipients and a comment with a body", async () => {
+      await expect(outlook.forward("m1").comment("FYI").send()).rejects.toThrow(
+        "Forwarding a message needs at least one recipient"
+      );
+      await expect(outlook.reply("m1").comment("Hi").body("Whole body").send()).rejects.toThrow(
+        "Give either a comment or a message body, not both"
+      );
+      expect(() => outlook.compose().comment("Hi")).toThrow("comment() only applies");
+      expect(mockAxonInstance.post).not.toHaveBeenCalled();
+    });
+  });
+
   describe("compose - MailBuilder", () => {
     beforeEach(() => {
       outlook = new Outlook(mockAuth);
@@ -588,6 +1123,107 @@ describe("MailBuilder", () => {
     });
   });
 
+  describe("Drafts", () => {
+    const BASE = "https://graph.microsoft.com/v1.0/me/messages";
+    const draft = {
+      id: "draft-1",
+      isDraft: true,
+      subject: "Weekly report",
+      body: { contentType: "HTML", content: "<p>Numbers attached</p>" },
+      toRecipients: [{ emailAddress: { address: "boss@example.com" } }],
+      importance: "high",
+    };
+    let mockAxonInstance: any;
+
+    beforeEach(() => {
+      mockAxonInstance = {
+        bearer: vi.fn().mockReturnThis(),
+        params: vi.fn().mockReturnThis(),
+        get: vi.fn().mockResolvedValue({ status: 200, data: draft }),
+        patch: vi.fn().mockResolvedValue({ status: 200, data: draft }),
+        post: vi.fn().mockResolvedValue({ status: 201, data: draft }),
+      };
+      (Axon.new as any).mockReturnValue(mockAxonInstance);
+    });
+
+    it("should save a new message to Drafts and return its ID", async () => {
+      const draftId = await builder
+        .subject("Weekly report")
+        .to(["boss@example.com"])
+        .attachments([{ name: "report.csv", content: Buffer.from("a,b") }])
+        .saveDraft();
+
+      expect(draftId).toBe("draft-1");
+      expect(mockAxonInstance.post).toHaveBeenCalledWith(
+        BASE,
+        expect.objectContaining({
+          subject: "Weekly report",
+          attachments: [expect.objectContaining({ name: "report.csv" })],
+        })
+      );
+      expect(builder.getPayload().message).toMatchObject({
+        body: draft.body,
+        attachments: [],
+      });
+    });
+
+    it("should reopen a draft, update it, add attachments and send it", async () => {
+      const reopened = await outlook.editDraft("draft-1");
+
+      await reopened
+        .cc(["manager@example.com"])
+        .attachments([{ name: "appendix.txt", content: Buffer.from("more") }])
+        .send();
+
+      expect(mockAxonInstance.get).toHaveBeenCalledWith(`${BASE}/draft-1`);
+      expect(mockAxonInstance.patch).toHaveBeenCalledWith(
+        `${BASE}/draft-1`,
+        expect.objectContaining({
+          subject: "Weekly report",
+          body: draft.body,
+          importance: "high",
+          ccRecipients: [{ emailAddress: { address: "manager@example.com" } }],
+        })
+      );
+      expect(mockAxonInstance.patch.mock.calls[0][1]).not.toHaveProperty("attachments");
+      expect(mockAxonInstance.post.mock.calls).toEqual([
+        [`${BASE}/draft-1/attachments`, expect.objectContaining({ name: "appendix.txt" })],
+        [`${BASE}/draft-1/send`],
+      ]);
+    });
+
+    it("should reject saveToSentItems(false) when sending a draft", async () => {
+      const saved = outlook.compose().subject("Weekly report").saveToSentItems(false);
+      await saved.saveDraft();
+      const reopened = (await outlook.editDraft("draft-1")).saveToSentItems(false);
+
+      await expect(saved.send()).rejects.toThrow(
+        "saveToSentItems(false) is not supported for drafts"
+      );
+      await expect(reopened.send()).rejects.toThrow(
+        "saveToSentItems(false) is not supported for drafts"
+      );
+      expect(mockAxonInstance.patch).not.toHaveBeenCalled();
+      expect(mockAxonInstance.post).not.toHaveBeenCalledWith(`${BASE}/draft-1/send`);
+    });
+
+    it("should save a reply as a draft", async () => {
+      const draftId = await outlook.reply("m1").comment("Looks good").saveDraft();
+
+      expect(draftId).toBe("draft-1");
+      expect(mockAxonInstance.post).toHaveBeenCalledWith(`${BASE}/m1/createReply`, {
+        comment: "Looks good",
+        message: {},
+      });
+    });
+
+    it("should refuse to edit a sent message", async () => {
+      mockAxonInstance.get.mockResolvedValue({ status: 200, data: { id: "m1", isDraft: false } });
+
+      await expect(outlook.editDraft("m1")).rejects.toThrow("Message is not a draft: m1");
+    });
+  });
+
   describe("getPayload", () => {
     it("should return current payload", () => {
       builder
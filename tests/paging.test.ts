@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AzureAuth } from "../src/core/auth";
+import { GraphClient } from "../src/core/client";
+import { SilentLogger } from "../src/core/logger";
+import { PageIterator } from "../src/core/paging";
+import { SharePoint } from "../src/services/SharePoint";
+import { Teams } from "../src/services/Teams";
+
+const mockGet = vi.fn();
+const mockParams = vi.fn();
+const mockAxonInstance = {
+  bearer: vi.fn().mockReturnThis(),
+  params: mockParams.mockReturnThis(),
+  get: mockGet,
+};
+
+vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any
+    ) {
+      super(message);
+    }
+  }
+
+  return {
+    default: {
+      new: vi.fn(() => mockAxonInstance),
+    },
+    AxonError,
+  };
+});
+
+const BASE_URL = "https://graph.microsoft.com/v1.0";
+
+// Serves `pages` in order, linking each one to the next
+function mockPages(pages: any[][]) {
+  pages.forEach((value, i) => {
+    mockGet.mockResolvedValueOnce({
+      status: 200,
+      data: {
+        value,
+        ...(i < pages.length - 1 && { "@odata.nextLink": `${BASE_URL}/next?page=${i + 2}` }),
+      },
+    });
+  });
+}
+
+describe("Paging", () => {
+  let auth: AzureAuth;
+
+  beforeEach(() => {
+    mockGet.mockReset();
+    mockParams.mockClear();
+    auth = new AzureAuth({ accessToken: "token", logger: new SilentLogger(), rateLimit: false });
+  });
+
+  afterEach(() => {
+    AzureAuth.reset();
+  });
+
+  describe("PageIterator", () => {
+    function fromPages(pages: number[][], maxItems?: number) {
+      const fetchPage = vi.fn(async (nextLink?: string) => {
+        const index = nextLink ? Number(nextLink) : 0;
+        return {
+          value: pages[index],
+          nextLink: index < pages.length - 1 ? String(index + 1) : undefined,
+        };
+      });
+      return { fetchPage, iterator: new PageIterator(fetchPage, maxItems) };
+    }
+
+    it("should iterate every item across pages with for await", async () => {
+      const { fetchPage, iterator } = fromPages([[1, 2], [3], [4, 5]]);
+
+      const items: number[] = [];
+      for await (const item of iterator) {
+        items.push(item);
+      }
+
+      expect(items).toEqual([1, 2, 3, 4, 5]);
+      expect(fetchPage.mock.calls).toEqual([
+        [undefined, undefined],
+        ["1", undefined],
+        ["2", undefined],
+      ]);
+    });
+
+    it("should not fetch anything until consumed", async () => {
+      const { fetchPage, iterator } = fromPages([[1]]);
+
+      expect(fetchPage).not.toHaveBeenCalled();
+      await expect(iterator).resolves.toEqual([1]);
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it("should behave like a promise of every item", async () => {
+      const { fetchPage, iterator } = fromPages([[1, 2], [3]]);
+      const onFinally = vi.fn();
+
+      await expect(iterator.finally(onFinally)).resolves.toEqual([1, 2, 3]);
+      await expect(Promise.all([iterator, iterator])).resolves.toEqual([
+        [1, 2, 3],
+        [1, 2, 3],
+      ]);
+      expect(onFinally).toHaveBeenCalledTimes(1);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+      expect(Object.prototype.toString.call(iterator)).toBe("[object PageIterator]");
+    });
+
+    it("should route page failures to catch", async () => {
+      const failure = new Error("page failed");
+      const iterator = new PageIterator<number>(() => Promise.reject(failure));
+
+      await expect(iterator.catch((error) => error)).resolves.toBe(failure);
+    });
+
+    it("should stop fetching once maxItems is reached", async () => {
+      const { fetchPage, iterator } = fromPages([[1, 2], [3, 4], [5, 6]]);
+
+      await expect(iterator.collect({ maxItems: 3 })).resolves.toEqual([1, 2, 3]);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it("should apply the iterator's own maxItems to pages", async () => {
+      const { fetchPage, iterator } = fromPages([[1, 2], [3, 4]], 1);
+
+      const pages: number[][] = [];
+      for await (const page of iterator.pages()) {
+        pages.push(page);
+      }
+
+      expect(pages).toEqual([[1]]);
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop fetching when the loop breaks early", async () => {
+      const { fetchPage, iterator } = fromPages([[1, 2], [3, 4]]);
+
+      for await (const item of iterator) {
+        if (item === 2) {
+          break;
+        }
+      }
+
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("GraphClient.paginate()", () => {
+    it("should follow @odata.nextLink without resending the query", async () => {
+      mockPages([[{ id: 1 }], [{ id: 2 }]]);
+
+      const items = await new GraphClient(auth).paginate("/me/messages", {
+        query: { $select: "subject" },
+        pageSize: 1,
+      });
+
+      expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(mockGet.mock.calls).toEqual([[`${BASE_URL}/me/messages`], [`${BASE_URL}/next?page=2`]]);
+      expect(mockParams).toHaveBeenCalledTimes(1);
+      expect(mockParams).toHaveBeenCalledWith({ $select: "subject", $top: 1 });
+    });
+  });
+
+  describe("Service list methods", () => {
+    it("should return every page of teams", async () => {
+      mockPages([
+        [{ id: "t1", displayName: "One", extra: true }],
+        [{ id: "t2", displayName: "Two" }],
+      ]);
+      const teams = new Teams(auth);
+
+      const result = await teams.getTeams();
+
+      expect(result.map((team) => team.id)).toEqual(["t1", "t2"]);
+      expect(result[0]).not.toHaveProperty("extra");
+    });
+
+    it("should stream list items and honor pageSize and maxItems", async () => {
+      mockPages([[{ id: "1" }, { id: "2" }], [{ id: "3" }, { id: "4" }], [{ id: "5" }]]);
+      const sharepoint = new SharePoint(auth, "site-123");
+
+      const ids: string[] = [];
+      const items = sharepoint.getListItems("Tasks", { expand: "fields" }, undefined, {
+        pageSize: 2,
+        maxItems: 3,
+      });
+      for await (const item of items) {
+        ids.push(item.id);
+      }
+
+      expect(ids).toEqual(["1", "2", "3"]);
+      expect(mockGet).toHaveBeenCalledTimes(2);
+      expect(mockParams).toHaveBeenCalledWith({ $expand: "fields", $top: 2 });
+    });
+
+    it("should treat getListItems top as a limit", async () => {
+      mockPages([[{ id: "1" }], [{ id: "2" }]]);
+      const sharepoint = new SharePoint(auth, "site-123");
+
+      await expect(sharepoint.getListItems("Tasks", { top: 1 })).resolves.toEqual([{ id: "1" }]);
+      expect(mockGet).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject, not throw, when the site ID is missing", async () => {
+      const sharepoint = new SharePoint(auth);
+
+      const lists = sharepoint.getLists();
+
+      await expect(lists).rejects.toThrow("Site ID is required");
+      await expect(sharepoint.getListColumns("Tasks").collect()).rejects.toThrow(
+        "Site ID is required"
+      );
+      expect(mockGet).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AzureAuth } from "../src/core/auth";
+import { SilentLogger } from "../src/core/logger";
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  resolveRetryPolicy,
+  withThrottlingRetry,
+} from "../src/core/retry";
+import { GraphThrottledError } from "../src/core/errors";
+import { Outlook } from "../src/services/Outlook";
+import type { ThrottledInfo } from "../src/types";
+import { AxonError } from "axios-fluent";
+
+const mockGet = vi.fn();
+const mockPost = vi.fn();
+const mockAxonInstance = {
+  bearer: vi.fn().mockReturnThis(),
+  get: mockGet,
+  post: mockPost,
+};
+
+vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any,
+      public headers?: { [key: string]: string }
+    ) {
+      super(message);
+    }
+  }
+
+  return {
+    default: {
+      new: vi.fn(() => mockAxonInstance),
+    },
+    AxonError,
+  };
+});
+
+function httpError(status: number, headers?: { [key: string]: string }) {
+  return new (AxonError as any)(
+    `Request failed with status code ${status}`,
+    status,
+    { error: { code: "TooManyRequests", message: "Slow down" } },
+    headers
+  );
+}
+
+describe("Retry Policy", () => {
+  const logger = new SilentLogger();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockGet.mockReset();
+    mockPost.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    AzureAuth.reset();
+  });
+
+  describe("resolveRetryPolicy()", () => {
+    it("should start from the defaults and apply overrides in order", () => {
+      expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+      expect(resolveRetryPolicy({ maxAttempts: 2 }, { baseDelayMs: 10, maxAttempts: undefined }))
+        .toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 2, baseDelayMs: 10 });
+    });
+
+    it("should disable retries with false and re-enable with later options", () => {
+      expect(resolveRetryPolicy({ maxAttempts: 2 }, false)).toBeUndefined();
+      expect(resolveRetryPolicy(false, { maxAttempts: 2 })).toEqual({
+        ...DEFAULT_RETRY_POLICY,
+        maxAttempts: 2,
+      });
+    });
+  });
+
+  describe("getRetryDelay()", () => {
+    it("should honor Retry-After over backoff", () => {
+      expect(getRetryDelay(DEFAULT_RETRY_POLICY, 3, 7)).toBe(7000);
+    });
+
+    it("should back off exponentially with jitter up to maxDelayMs", () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      expect(getRetryDelay(policy, 1)).toBe(500);
+      expect(getRetryDelay(policy, 3)).toBe(2000);
+
+      vi.spyOn(Math, "random").mockReturnValue(0.999999);
+      expect(getRetryDelay(policy, 2)).toBe(2000);
+      expect(getRetryDelay(policy, 10)).toBe(5000);
+    });
+  });
+
+  describe("withThrottlingRetry()", () => {
+    it("should wait for Retry-After and retry a throttled GET", async () => {
+      mockGet
+        .mockRejectedValueOnce(httpError(429, { "Retry-After": "5" }))
+        .mockResolvedValueOnce({ status: 200, data: { ok: true } });
+
+      const client = withThrottlingRetry(mockAxonInstance, DEFAULT_RETRY_POLICY, logger);
+      const pending = client.bearer("token").get("https://graph.microsoft.com/v1.0/me");
+
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(mockGet).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(pending).resolves.toEqual({ status: 200, data: { ok: true } });
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it("should give up after maxAttempts", async () => {
+      const failure = httpError(503);
+      mockGet.mockRejectedValue(failure);
+
+      const client = withThrottlingRetry(
+        mockAxonInstance,
+        { ...DEFAULT_RETRY_POLICY, maxAttempts: 3 },
+        logger
+      );
+      const pending = client.get("https://graph.microsoft.com/v1.0/me").catch((e: unknown) => e);
+
+      await vi.runAllTimersAsync();
+      expect(await pending).toBe(failure);
+      expect(mockGet).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry POST by default", async () => {
+      const failure = httpError(429, { "Retry-After": "1" });
+      mockPost.mockRejectedValue(failure);
+
+      const client = withThrottlingRetry(mockAxonInstance, DEFAULT_RETRY_POLICY, logger);
+
+      await expect(client.post("https://graph.microsoft.com/v1.0/me/sendMail", {})).rejects.toBe(
+        failure
+      );
+      expect(mockPost).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry other errors", async () => {
+      const failure = httpError(404);
+      mockGet.mockRejectedValue(failure);
+
+      const client = withThrottlingRetry(mockAxonInstance, DEFAULT_RETRY_POLICY, logger);
+
+      await expect(client.get("https://graph.microsoft.com/v1.0/me")).rejects.toBe(failure);
+      expect(mockGet).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report every throttling event to onThrottled", async () => {
+      const events: ThrottledInfo[] = [];
+      mockGet.mockRejectedValue(httpError(429, { "Retry-After": "2" }));
+
+      const client = withThrottlingRetry(
+        mockAxonInstance,
+        { ...DEFAULT_RETRY_POLICY, maxAttempts: 2, onThrottled: (info) => events.push(info) },
+        logger
+      );
+      const pending = client.get("https://graph.microsoft.com/v1.0/me").catch(() => undefined);
+      await vi.runAllTimersAsync();
+      await pending;
+
+      expect(events).toEqual([
+        {
+          method: "GET",
+          url: "https://graph.microsoft.com/v1.0/me",
+          status: 429,
+          attempt: 1,
+          maxAttempts: 2,
+          retryAfter: 2,
+          delayMs: 2000,
+          willRetry: true,
+        },
+        {
+          method: "GET",
+          url: "https://graph.microsoft.com/v1.0/me",
+          status: 429,
+          attempt: 2,
+          maxAttempts: 2,
+          retryAfter: 2,
+          delayMs: undefined,
+          willRetry: false,
+        },
+      ]);
+    });
+  });
+
+  describe("Service calls", () => {
+    it("should retry throttled requests made by services", async () => {
+      const onThrottled = vi.fn();
+      mockGet
+        .mockRejectedValueOnce(httpError(429, { "Retry-After": "1" }))
+        .mockResolvedValueOnce({ status: 200, data: { displayName: "Test User" } });
+
+      const outlook = new Outlook({ accessToken: "token", logger, retry: { onThrottled } });
+      const pending = outlook.getMe();
+      await vi.runAllTimersAsync();
+
+      await expect(pending).resolves.toEqual({ displayName: "Test User" });
+      expect(onThrottled).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let a single call override the configured policy", async () => {
+      mockGet.mockRejectedValue(httpError(429, { "Retry-After": "1" }));
+
+      const outlook = new Outlook({ accessToken: "token", logger });
+
+      await expect(outlook.getMe({ retry: false })).rejects.toBeInstanceOf(GraphThrottledError);
+      expect(mockGet).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry POST when the policy allows it", async () => {
+      mockPost
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce({ status: 202, data: "" });
+
+      const auth = new AzureAuth({
+        accessToken: "token",
+        logger,
+        retry: { methods: ["POST"], baseDelayMs: 10 },
+      });
+      const outlook = new Outlook(auth);
+      const pending = outlook.sendMail({ message: { subject: "Hi" } } as any);
+      await vi.runAllTimersAsync();
+
+      await expect(pending).resolves.toMatchObject({ status: 202 });
+      expect(mockPost).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AzureAuth } from "../src/core/auth";
+import { RequestAbortedError, RequestTimeoutError } from "../src/core/cancellation";
+import { SilentLogger } from "../src/core/logger";
+import {
+  getRequestScheduler,
+  RequestScheduler,
+  withRequestScheduling,
+} from "../src/core/scheduler";
+import { SharePoint } from "../src/services/SharePoint";
+
+const mockDelete = vi.fn();
+const mockAxonInstance = {
+  bearer: vi.fn().mockReturnThis(),
+  delete: mockDelete,
+};
+
+vi.mock("axios-fluent", () => {
+  class AxonError extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public responseData?: any,
+      public headers?: { [key: string]: string }
+    ) {
+      super(message);
+    }
+  }
+
+  return {
+    default: {
+      new: vi.fn(() => mockAxonInstance),
+    },
+    AxonError,
+  };
+});
+
+// Task that stays in flight until released, recording when it started
+function createTasks(count: number) {
+  const started: number[] = [];
+  const releases: Array<() => void> = [];
+  const tasks = Array.from({ length: count }, (_, i) => () => {
+    started.push(i);
+    return new Promise<number>((resolve) => releases.push(() => resolve(i)));
+  });
+  return { started, releases, tasks };
+}
+
+describe("Request Scheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockDelete.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    AzureAuth.reset();
+  });
+
+  describe("RequestScheduler", () => {
+    it("should cap the number of requests in flight", async () => {
+      const scheduler = new RequestScheduler({ maxConcurrent: 2, requestsPerSecond: 0 });
+      const { started, releases, tasks } = createTasks(4);
+
+      const results = Promise.all(tasks.map((task) => scheduler.schedule(task)));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(started).toEqual([0, 1]);
+      expect(scheduler.getStats()).toEqual({ active: 2, queued: 2 });
+
+      releases[0]();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(started).toEqual([0, 1, 2]);
+
+      releases[1]();
+      releases[2]();
+      await vi.advanceTimersByTimeAsync(0);
+      releases[3]();
+
+      await expect(results).resolves.toEqual([0, 1, 2, 3]);
+      expect(scheduler.getStats()).toEqual({ active: 0, queued: 0 });
+    });
+
+    it("should allow a burst, then start requests at the configured rate", async () => {
+      const scheduler = new RequestScheduler({
+        requestsPerSecond: 2,
+        burst: 2,
+        maxConcurrent: 10,
+      });
+      const started: number[] = [];
+
+      for (let i = 0; i < 5; i++) {
+        scheduler.schedule(async () => started.push(Date.now()));
+      }
+      const startTime = Date.now();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(started).toHaveLength(2);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(started).toHaveLength(3);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(started).toHaveLength(5);
+      expect(started.map((time) => time - startTime)).toEqual([0, 0, 500, 1000, 1500]);
+    });
+
+    it("should hold queued requests while paused", async () => {
+      const scheduler = new RequestScheduler({ requestsPerSecond: 0 });
+      const task = vi.fn(async () => "done");
+
+      scheduler.pause(3000);
+      const result = scheduler.schedule(task);
+
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(task).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toBe("done");
+    });
+    it("should reject an aborted request but hold its slot until it settles", async () => {
+      const scheduler = new RequestScheduler({ maxConcurrent: 1, requestsPerSecond: 0 });
+      const controller = new AbortController();
+      const { started, releases, tasks } = createTasks(2);
+
+      const aborted = scheduler.schedule(tasks[0], controller.signal);
+      const next = scheduler.schedule(tasks[1]);
+      await vi.advanceTimersByTimeAsync(0);
+
+      controller.abort();
+      await expect(aborted).rejects.toThrow(RequestAbortedError);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(started).toEqual([0]);
+      expect(scheduler.getStats()).toEqual({ active: 1, queued: 1 });
+
+      releases[0]();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(started).toEqual([0, 1]);
+
+      releases[1]();
+      await expect(next).resolves.toBe(1);
+      expect(scheduler.getStats()).toEqual({ active: 0, queued: 0 });
+    });
+  });
+
+  describe("getRequestScheduler()", () => {
+    it("should share one scheduler per tenant and host", () => {
+      const graph = getRequestScheduler("tenant-a", "graph.microsoft.com");
+
+      expect(getRequestScheduler("tenant-a", "graph.microsoft.com")).toBe(graph);
+      expect(getRequestScheduler("tenant-b", "graph.microsoft.com")).not.toBe(graph);
+      expect(getRequestScheduler("tenant-a", "login.microsoftonline.com")).not.toBe(graph);
+    });
+
+    it("should apply per-resource overrides and opt-outs", async () => {
+      const config = {
+        maxConcurrent: 4,
+        requestsPerSecond: 0,
+        resources: { "graph.microsoft.com": { maxConcurrent: 1 }, "localhost:3000": false as const },
+      };
+
+      expect(getRequestScheduler("tenant-a", "localhost:3000", config)).toBeUndefined();
+      expect(getRequestScheduler("tenant-a", "graph.microsoft.com", false)).toBeUndefined();
+
+      const scheduler = getRequestScheduler("tenant-a", "graph.microsoft.com", config)!;
+      const { started, releases, tasks } = createTasks(2);
+      tasks.forEach((task) => scheduler.schedule(task));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(started).toEqual([0]);
+      releases[0]();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(started).toEqual([0, 1]);
+      releases[1]();
+    });
+  });
+
+  describe("withRequestScheduling()", () => {
+    it("should pause the shared queue when Graph returns Retry-After", async () => {
+      const throttled = Object.assign(new Error("Too Many Requests"), {
+        status: 429,
+        headers: { "Retry-After": "2" },
+      });
+      const client = {
+        get: vi.fn().mockRejectedValueOnce(throttled).mockResolvedValue({ status: 200 }),
+      };
+      const scheduled = withRequestScheduling(client, "tenant-a", { requestsPerSecond: 0 });
+
+      await expect(scheduled.get("https://graph.microsoft.com/v1.0/me")).rejects.toBe(throttled);
+
+      const next = scheduled.get("https://graph.microsoft.com/v1.0/me/messages");
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(client.get).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(next).resolves.toEqual({ status: 200 });
+    });
+  });
+
+  describe("Service calls", () => {
+    it("should queue bulk deletes instead of sending them all at once", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockDelete.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        inFlight--;
+        return { status: 204 };
+      });
+
+      const sharepoint = new SharePoint(
+        {
+          accessToken: "token",
+          logger: new SilentLogger(),
+          rateLimit: { maxConcurrent: 3, requestsPerSecond: 0 },
+        },
+        "site-123"
+      );
+      const itemIds = Array.from({ length: 20 }, (_, i) => String(i));
+
+      const pending = sharepoint.deleteListItems("Tasks", itemIds);
+      await vi.runAllTimersAsync();
+      await pending;
+
+      expect(mockDelete).toHaveBeenCalledTimes(20);
+      expect(maxInFlight).toBe(3);
+    });
+
+    it("should keep a timed-out request's slot until the HTTP call settles", async () => {
+      let settleFirst: () => void = () => {};
+      mockDelete
+        .mockImplementationOnce(
+          () => new Promise((resolve) => (settleFirst = () => resolve({ status: 204 })))
+        )
+        .mockResolvedValue({ status: 204 });
+
+      const sharepoint = new SharePoint(
+        {
+          accessToken: "token",
+          logger: new SilentLogger(),
+          rateLimit: { maxConcurrent: 1, requestsPerSecond: 0 },
+        },
+        "site-123"
+      );
+
+      const slow = sharepoint.deleteListItem("Tasks", "1", undefined, { timeoutMs: 1000 });
+      const slowResult = expect(slow).rejects.toThrow(RequestTimeoutError);
+      const next = sharepoint.deleteListItem("Tasks", "2");
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await slowResult;
+      expect(mockDelete).toHaveBeenCalledTimes(1);
+
+      settleFirst();
+      await expect(next).resolves.toBeUndefined();
+      expect(mockDelete).toHaveBeenCalledTimes(2);
+    });
+
+    it("should share the limit between instances for the same tenant", async () => {
+      const { started, releases } = createTasks(0);
+      mockDelete.mockImplementation(
+        () =>
+          new Promise((resolve) => {
+            started.push(started.length);
+            releases.push(() => resolve({ status: 204 }));
+          })
+      );
+
+      const config = {
+        accessToken: "token",
+        tenantId: "shared-tenant",
+        logger: new SilentLogger(),
+        rateLimit: { maxConcurrent: 2, requestsPerSecond: 0 },
+      };
+      const first = new SharePoint(config, "site-123");
+      const second = new SharePoint(config, "site-123");
+
+      const pending = Promise.all([
+        first.deleteListItems("Tasks", ["1", "2"]),
+        second.deleteListItems("Tasks", ["3", "4"]),
+      ]);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(started).toHaveLength(2);
+
+      releases.forEach((release) => release());
+      await vi.advanceTimersByTimeAsync(0);
+      releases.forEach((release) => release());
+      await pending;
+      expect(started).toHaveLength(4);
+    });
+  });
+});
@@ -480,6 +480,19 @@ describe("SharePoint Service", () => {
       expect(mockAxonInstance.delete).toHaveBeenCalledTimes(3);
     });
 
+    it("should only wrap each delete request in the 401 retry", async () => {
+      const mockAxonInstance = {
+        bearer: vi.fn().mockReturnThis(),
+        delete: vi.fn().mockResolvedValue({}),
+      };
+
+      (Axon.new as any).mockReturnValue(mockAxonInstance);
+
+      await sharepoint.deleteListItems("Tasks", ["1", "2", "3"]);
+
+      expect(mockAuth.withRetry).toHaveBeenCalledTimes(3);
+    });
+
     it("should handle deletion errors", async () => {
       const mockError = new Error("Delete failed");
       const mockAxonInstance = {